@@ -4,12 +4,21 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { CategoriesProvider } from "@/contexts/CategoriesContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import Dashboard from "./pages/Dashboard";
 import SubmitReport from "./pages/SubmitReport";
 import Moderate from "./pages/Moderate";
+import IncidentMap from "./pages/IncidentMap";
+import MyReports from "./pages/MyReports";
+import EditReport from "./pages/EditReport";
+import AdminCategories from "./pages/AdminCategories";
+import AdminUsers from "./pages/AdminUsers";
+import PublicPortal from "./pages/PublicPortal";
+import PublicReport from "./pages/PublicReport";
+import ReportDetail from "./pages/ReportDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,36 +30,88 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/" element={<Navigate to="/dashboard" replace />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/signup" element={<Signup />} />
-            <Route
-              path="/dashboard"
-              element={
-                <ProtectedRoute>
-                  <Dashboard />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/submit-report"
-              element={
-                <ProtectedRoute allowedRoles={["USER"]}>
-                  <SubmitReport />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/moderate"
-              element={
-                <ProtectedRoute allowedRoles={["MODERATOR"]}>
-                  <Moderate />
-                </ProtectedRoute>
-              }
-            />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <CategoriesProvider>
+            <Routes>
+              <Route path="/" element={<Navigate to="/dashboard" replace />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/signup" element={<Signup />} />
+              <Route path="/public" element={<PublicPortal />} />
+              <Route path="/public/reports/:id" element={<PublicReport />} />
+              <Route
+                path="/dashboard"
+                element={
+                  <ProtectedRoute>
+                    <Dashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/map"
+                element={
+                  <ProtectedRoute>
+                    <IncidentMap />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/reports/:id"
+                element={
+                  <ProtectedRoute>
+                    <ReportDetail />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/submit-report"
+                element={
+                  <ProtectedRoute allowedRoles={["USER"]}>
+                    <SubmitReport />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/my-reports"
+                element={
+                  <ProtectedRoute allowedRoles={["USER"]}>
+                    <MyReports />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/my-reports/:id/edit"
+                element={
+                  <ProtectedRoute allowedRoles={["USER"]}>
+                    <EditReport />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/moderate"
+                element={
+                  <ProtectedRoute allowedRoles={["MODERATOR"]}>
+                    <Moderate />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/categories"
+                element={
+                  <ProtectedRoute allowedRoles={["MODERATOR"]}>
+                    <AdminCategories />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/users"
+                element={
+                  <ProtectedRoute allowedRoles={["ADMIN"]}>
+                    <AdminUsers />
+                  </ProtectedRoute>
+                }
+              />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </CategoriesProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { Film, Image as ImageIcon, X } from "lucide-react";
+import {
+  ATTACHMENT_SIZE_LIMITS,
+  MAX_ATTACHMENTS,
+  PreparedAttachment,
+  formatFileSize,
+  getMediaType,
+  prepareAttachment,
+  validateAttachment,
+} from "@/lib/attachments";
+import { Coordinates } from "@/lib/map";
+import { readGpsCoordinates } from "@/lib/media";
+
+interface AttachmentPickerProps {
+  attachments: PreparedAttachment[];
+  onChange: (attachments: PreparedAttachment[]) => void;
+  // Called with the GPS position embedded in a newly added photo
+  onLocationFound?: (coordinates: Coordinates) => void;
+  // Upload progress per attachment index, present only while uploading
+  progress?: Record<number, number>;
+  disabled?: boolean;
+}
+
+export function AttachmentPicker({ attachments, onChange, onLocationFound, progress, disabled }: AttachmentPickerProps) {
+  const [processing, setProcessing] = useState(false);
+  const { toast } = useToast();
+
+  const addFiles = async (selected: File[]) => {
+    const available = MAX_ATTACHMENTS - attachments.length;
+    if (selected.length > available) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files.`,
+        variant: "destructive",
+      });
+    }
+
+    setProcessing(true);
+    const accepted: PreparedAttachment[] = [];
+    for (const file of selected.slice(0, available)) {
+      if (!getMediaType(file)) {
+        toast({
+          title: "File not added",
+          description: `${file.name} is not an image or video`,
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      // Read the position before compression strips it
+      if (onLocationFound && getMediaType(file) === "image") {
+        const coordinates = await readGpsCoordinates(file);
+        if (coordinates) onLocationFound(coordinates);
+      }
+
+      try {
+        const prepared = await prepareAttachment(file);
+        const error = validateAttachment(prepared.file);
+        if (error) throw new Error(error);
+        accepted.push(prepared);
+      } catch (error) {
+        toast({
+          title: "File not added",
+          description: error instanceof Error ? error.message : `${file.name} could not be processed`,
+          variant: "destructive",
+        });
+      }
+    }
+
+    onChange([...attachments, ...accepted]);
+    setProcessing(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="attachments">Photos and videos (optional)</Label>
+      <Input
+        id="attachments"
+        type="file"
+        accept="image/*,video/*"
+        multiple
+        disabled={disabled || processing || attachments.length >= MAX_ATTACHMENTS}
+        onChange={(e) => {
+          addFiles(Array.from(e.target.files ?? []));
+          e.target.value = "";
+        }}
+      />
+      <p className="text-xs text-muted-foreground">
+        {processing
+          ? "Processing files..."
+          : `Up to ${MAX_ATTACHMENTS} files. Photos are resized and their metadata removed before upload. Videos up to ${formatFileSize(ATTACHMENT_SIZE_LIMITS.video)}.`}
+      </p>
+      {attachments.length > 0 && (
+        <ul className="space-y-2">
+          {attachments.map((attachment, index) => (
+            <li key={`${attachment.file.name}-${index}`} className="rounded-md border border-border p-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex min-w-0 items-center gap-2">
+                  {attachment.mediaType === "video" ? (
+                    <Film className="h-4 w-4 shrink-0" />
+                  ) : (
+                    <ImageIcon className="h-4 w-4 shrink-0" />
+                  )}
+                  <span className="truncate">{attachment.file.name}</span>
+                  <span className="shrink-0 text-muted-foreground">{formatFileSize(attachment.file.size)}</span>
+                </span>
+                {!disabled && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => onChange(attachments.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove {attachment.file.name}</span>
+                  </Button>
+                )}
+              </div>
+              {progress?.[index] !== undefined && <Progress value={progress[index]} className="mt-2 h-2" />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
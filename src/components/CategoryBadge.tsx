@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { FALLBACK_CATEGORY_COLOR, getCategoryIcon } from "@/lib/categories";
+
+export function CategoryBadge({ category }: { category: string }) {
+  const { getCategory } = useCategories();
+  const details = getCategory(category);
+  const Icon = getCategoryIcon(details?.icon);
+
+  return (
+    <Badge variant="outline" className="gap-1">
+      <Icon className="h-3 w-3" style={{ color: details?.color ?? FALLBACK_CATEGORY_COLOR }} />
+      {details?.label ?? category}
+    </Badge>
+  );
+}
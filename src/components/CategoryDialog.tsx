@@ -0,0 +1,326 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  CATEGORY_ICONS,
+  Category,
+  FALLBACK_CATEGORY_COLOR,
+  FIELD_TYPE_LABELS,
+  FieldType,
+  categoryFieldSchema,
+  getCategoryFields,
+  slugifyCategory,
+} from "@/lib/categories";
+import { z } from "zod";
+
+// A field as edited in the dialog, with its options as comma-separated text
+interface FieldDraft {
+  key: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  options: string;
+}
+
+const categorySchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, "The key must start with a letter and use only lowercase letters, digits and _")
+    .max(50, "The key must be less than 50 characters"),
+  label: z.string().trim().min(1, "Label is required").max(100, "Label must be less than 100 characters"),
+  icon: z.string().refine((icon) => icon in CATEGORY_ICONS, "Select an icon"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Select a color"),
+  is_active: z.boolean(),
+  priority_weight: z
+    .number({ invalid_type_error: "Priority weight must be a number" })
+    .min(0.5, "Priority weight must be between 0.5 and 2")
+    .max(2, "Priority weight must be between 0.5 and 2"),
+  fields: z
+    .array(
+      categoryFieldSchema.refine(
+        (field) => field.type !== "select" || (field.options?.length ?? 0) > 0,
+        (field) => ({ message: `${field.label} needs at least one option` })
+      )
+    )
+    .refine((fields) => new Set(fields.map((field) => field.key)).size === fields.length, "Field keys must be unique"),
+});
+
+export type CategoryInput = z.infer<typeof categorySchema>;
+
+interface CategoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The category being edited, or undefined to create one
+  category?: Category;
+  // Resolves to whether the category was saved
+  onSave: (input: CategoryInput) => Promise<boolean>;
+}
+
+export function CategoryDialog({ open, onOpenChange, category, onSave }: CategoryDialogProps) {
+  const [label, setLabel] = useState("");
+  const [id, setId] = useState("");
+  const [idEdited, setIdEdited] = useState(false);
+  const [icon, setIcon] = useState("circle-help");
+  const [color, setColor] = useState(FALLBACK_CATEGORY_COLOR);
+  const [isActive, setIsActive] = useState(true);
+  const [priorityWeight, setPriorityWeight] = useState("1");
+  const [fields, setFields] = useState<FieldDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLabel(category?.label ?? "");
+    setId(category?.id ?? "");
+    setIdEdited(false);
+    setIcon(category?.icon ?? "circle-help");
+    setColor(category?.color ?? FALLBACK_CATEGORY_COLOR);
+    setIsActive(category?.is_active ?? true);
+    setPriorityWeight(String(category?.priority_weight ?? 1));
+    setFields(
+      getCategoryFields(category).map((field) => ({
+        key: field.key,
+        label: field.label,
+        type: field.type,
+        required: field.required,
+        options: field.options?.join(", ") ?? "",
+      }))
+    );
+    setError(null);
+  }, [open, category]);
+
+  const handleLabelChange = (value: string) => {
+    setLabel(value);
+    // Suggest a key from the label until the moderator types one
+    if (!category && !idEdited) setId(slugifyCategory(value));
+  };
+
+  const updateField = (index: number, changes: Partial<FieldDraft>) =>
+    setFields((current) =>
+      current.map((field, i) => {
+        if (i !== index) return field;
+        // The key follows the label for as long as it was derived from it
+        const followsLabel = changes.label !== undefined && field.key === slugifyCategory(field.label);
+        return { ...field, ...changes, ...(followsLabel && { key: slugifyCategory(changes.label) }) };
+      })
+    );
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationResult = categorySchema.safeParse({
+      id,
+      label,
+      icon,
+      color,
+      is_active: isActive,
+      priority_weight: priorityWeight === "" ? undefined : Number(priorityWeight),
+      fields: fields.map(({ options, ...field }) => ({
+        ...field,
+        options:
+          field.type === "select"
+            ? options
+                .split(",")
+                .map((option) => option.trim())
+                .filter(Boolean)
+            : undefined,
+      })),
+    });
+
+    if (!validationResult.success) {
+      setError(validationResult.error.errors[0].message);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await onSave(validationResult.data);
+    setSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{category ? "Edit category" : "Add category"}</DialogTitle>
+            <DialogDescription>
+              Categories are offered to citizens when they submit a report.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="category-label">Label</Label>
+            <Input
+              id="category-label"
+              value={label}
+              onChange={(e) => handleLabelChange(e.target.value)}
+              maxLength={100}
+              placeholder="e.g., Gas Leak"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-id">Key</Label>
+            <Input
+              id="category-id"
+              value={id}
+              onChange={(e) => {
+                setId(e.target.value);
+                setIdEdited(true);
+              }}
+              maxLength={50}
+              disabled={!!category}
+            />
+            <p className="text-xs text-muted-foreground">Stored on each report and cannot be changed later.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <Select value={icon} onValueChange={setIcon}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                    <SelectItem key={name} value={name}>
+                      <span className="flex items-center gap-2">
+                        <Icon className="h-4 w-4" />
+                        {name}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-color">Color</Label>
+              <Input
+                id="category-color"
+                type="color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="h-10 p-1"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-priority-weight">Priority weight</Label>
+            <Input
+              id="category-priority-weight"
+              type="number"
+              min={0.5}
+              max={2}
+              step={0.25}
+              value={priorityWeight}
+              onChange={(e) => setPriorityWeight(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Multiplies the priority score of this category's reports; 1 is neutral.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="category-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="category-active">Available for new reports</Label>
+          </div>
+          <div className="space-y-3">
+            <div>
+              <Label>Extra fields</Label>
+              <p className="text-xs text-muted-foreground">Asked in addition to the title and description.</p>
+            </div>
+            {fields.map((field, index) => (
+              <div key={index} className="space-y-2 rounded-md border p-3">
+                <div className="flex gap-2">
+                  <Input
+                    aria-label="Field label"
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    maxLength={200}
+                    placeholder="e.g., Is traffic blocked?"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove field"
+                    onClick={() => setFields((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    aria-label="Field key"
+                    value={field.key}
+                    onChange={(e) => updateField(index, { key: e.target.value })}
+                    maxLength={50}
+                  />
+                  <Select value={field.type} onValueChange={(type: FieldType) => updateField(index, { type })}>
+                    <SelectTrigger aria-label="Field type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(FIELD_TYPE_LABELS).map(([type, typeLabel]) => (
+                        <SelectItem key={type} value={type}>
+                          {typeLabel}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {field.type === "select" && (
+                  <Input
+                    aria-label="Field options"
+                    value={field.options}
+                    onChange={(e) => updateField(index, { options: e.target.value })}
+                    placeholder="Options, separated by commas"
+                  />
+                )}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`field-required-${index}`}
+                    checked={field.required}
+                    onCheckedChange={(required) => updateField(index, { required })}
+                  />
+                  <Label htmlFor={`field-required-${index}`} className="font-normal">
+                    Required
+                  </Label>
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setFields((current) => [...current, { key: "", label: "", type: "text", required: false, options: "" }])
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add field
+            </Button>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
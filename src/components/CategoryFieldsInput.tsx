@@ -0,0 +1,90 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryField, DetailValue, ReportDetails } from "@/lib/categories";
+
+interface CategoryFieldsInputProps {
+  fields: CategoryField[];
+  values: ReportDetails;
+  onChange: (values: ReportDetails) => void;
+}
+
+// Renders the extra questions a category asks, one input per field type
+export function CategoryFieldsInput({ fields, values, onChange }: CategoryFieldsInputProps) {
+  const setValue = (key: string, value: DetailValue) => onChange({ ...values, [key]: value });
+
+  return (
+    <>
+      {fields.map((field) => {
+        const id = `detail-${field.key}`;
+        const label = `${field.label}${field.required ? "" : " (optional)"}`;
+        const value = values[field.key];
+
+        if (field.type === "boolean") {
+          return (
+            <div key={field.key} className="space-y-2">
+              <Label>{label}</Label>
+              <RadioGroup
+                value={value === undefined ? "" : String(value)}
+                onValueChange={(next) => setValue(field.key, next === "true")}
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="true" id={`${id}-yes`} />
+                  <Label htmlFor={`${id}-yes`} className="font-normal">
+                    Yes
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="false" id={`${id}-no`} />
+                  <Label htmlFor={`${id}-no`} className="font-normal">
+                    No
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          );
+        }
+
+        if (field.type === "select") {
+          return (
+            <div key={field.key} className="space-y-2">
+              <Label>{label}</Label>
+              <Select value={typeof value === "string" ? value : ""} onValueChange={(next) => setValue(field.key, next)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an option" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(field.options ?? []).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        }
+
+        return (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            <Input
+              id={id}
+              type={field.type === "number" ? "number" : "text"}
+              value={value === undefined ? "" : String(value)}
+              onChange={(e) =>
+                setValue(
+                  field.key,
+                  field.type === "number" && e.target.value !== "" ? Number(e.target.value) : e.target.value
+                )
+              }
+              maxLength={field.type === "text" ? 500 : undefined}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+}
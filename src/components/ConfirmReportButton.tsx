@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { ReportStatus } from "@/lib/reports";
+import { ThumbsUp } from "lucide-react";
+
+const CONFIRMABLE_STATUSES: ReportStatus[] = ["pending", "verified", "in_progress"];
+
+interface ConfirmReportButtonProps {
+  reportId: string;
+  ownerId: string;
+  status: ReportStatus;
+  count: number;
+}
+
+// "I'm affected too" toggle; authors and closed reports only show the count
+export function ConfirmReportButton({ reportId, ownerId, status, count }: ConfirmReportButtonProps) {
+  const [confirmed, setConfirmed] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Matches public.can_confirm_report
+  const canConfirm = !!user && user.id !== ownerId && CONFIRMABLE_STATUSES.includes(status);
+
+  useEffect(() => {
+    if (!canConfirm) return;
+
+    supabase
+      .from("report_confirmations")
+      .select("report_id")
+      .eq("report_id", reportId)
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(({ data }) => setConfirmed(!!data));
+  }, [canConfirm, reportId, user]);
+
+  const toggle = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    const { error } = confirmed
+      ? await supabase.from("report_confirmations").delete().eq("report_id", reportId).eq("user_id", user.id)
+      : await supabase.from("report_confirmations").insert({ report_id: reportId, user_id: user.id });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setConfirmed(!confirmed);
+    }
+  };
+
+  if (!canConfirm) {
+    return count > 0 ? (
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <ThumbsUp className="h-4 w-4" />
+        {count} {count === 1 ? "person" : "people"} affected
+      </span>
+    ) : null;
+  }
+
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant={confirmed ? "secondary" : "outline"}
+      onClick={toggle}
+      disabled={saving}
+      aria-pressed={confirmed}
+    >
+      <ThumbsUp className="mr-2 h-4 w-4" />
+      {confirmed ? "You're affected" : "I'm affected too"}
+      {count > 0 && <span className="ml-2 text-muted-foreground">{count}</span>}
+    </Button>
+  );
+}
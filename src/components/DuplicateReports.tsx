@@ -0,0 +1,53 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Copy } from "lucide-react";
+import { formatDistance } from "@/lib/map";
+
+export interface DuplicateReport {
+  id: string;
+  title: string;
+  location: string | null;
+  created_at: string;
+  distance_meters: number | null;
+}
+
+interface DuplicateReportsProps {
+  reportId: string;
+  duplicates: DuplicateReport[];
+  // Whether verifying or rejecting the report also decides its duplicates
+  applyDecision: boolean;
+  onApplyDecisionChange: (apply: boolean) => void;
+}
+
+export function DuplicateReports({ reportId, duplicates, applyDecision, onApplyDecisionChange }: DuplicateReportsProps) {
+  const checkboxId = `apply-duplicates-${reportId}`;
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Copy className="h-4 w-4 text-muted-foreground" />
+        {duplicates.length} possible {duplicates.length === 1 ? "duplicate" : "duplicates"}
+      </p>
+      <ul className="space-y-1 text-sm">
+        {duplicates.map((duplicate) => (
+          <li key={duplicate.id} className="flex flex-wrap items-center gap-x-2 text-muted-foreground">
+            <span className="font-medium text-foreground">{duplicate.title}</span>
+            {duplicate.location && <span>{duplicate.location}</span>}
+            {duplicate.distance_meters !== null && <span>{formatDistance(duplicate.distance_meters)} away</span>}
+            <span>{new Date(duplicate.created_at).toLocaleDateString()}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id={checkboxId}
+          checked={applyDecision}
+          onCheckedChange={(checked) => onApplyDecisionChange(checked === true)}
+        />
+        <Label htmlFor={checkboxId} className="text-sm font-normal">
+          Apply my decision to the duplicates too
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { MapContainer, Marker, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Crosshair, X } from "lucide-react";
+import {
+  Coordinates,
+  DEFAULT_CENTER,
+  DEFAULT_ZOOM,
+  PIN_ZOOM,
+  TILE_LAYER_ATTRIBUTION,
+  TILE_LAYER_URL,
+  formatCoordinates,
+} from "@/lib/map";
+
+interface LocationPickerProps {
+  value: Coordinates | null;
+  onChange: (value: Coordinates | null) => void;
+}
+
+function PinDropper({ onDrop }: { onDrop: (value: Coordinates) => void }) {
+  useMapEvents({
+    // The map repeats horizontally; wrap so clicks past ±180° stay valid
+    click: (e) => {
+      const { lat, lng } = e.latlng.wrap();
+      onDrop({ latitude: lat, longitude: lng });
+    },
+  });
+  return null;
+}
+
+function FlyTo({ value }: { value: Coordinates | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (value) {
+      map.flyTo([value.latitude, value.longitude], Math.max(map.getZoom(), PIN_ZOOM));
+    }
+  }, [map, value]);
+
+  return null;
+}
+
+export function LocationPicker({ value, onChange }: LocationPickerProps) {
+  const [locating, setLocating] = useState(false);
+  const { toast } = useToast();
+
+  const handleLocate = () => {
+    if (!("geolocation" in navigator)) {
+      toast({
+        title: "Location unavailable",
+        description: "Your browser does not support geolocation.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        onChange({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        });
+        setLocating(false);
+      },
+      (error) => {
+        toast({
+          title: "Location unavailable",
+          description: error.message,
+          variant: "destructive",
+        });
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="h-64 overflow-hidden rounded-md border border-input">
+        <MapContainer
+          center={value ? [value.latitude, value.longitude] : DEFAULT_CENTER}
+          zoom={value ? PIN_ZOOM : DEFAULT_ZOOM}
+          className="h-full w-full"
+        >
+          <TileLayer url={TILE_LAYER_URL} attribution={TILE_LAYER_ATTRIBUTION} />
+          <PinDropper onDrop={onChange} />
+          <FlyTo value={value} />
+          {value && (
+            <Marker
+              position={[value.latitude, value.longitude]}
+              draggable
+              eventHandlers={{
+                dragend: (e) => {
+                  const { lat, lng } = e.target.getLatLng().wrap();
+                  onChange({ latitude: lat, longitude: lng });
+                },
+              }}
+            />
+          )}
+        </MapContainer>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span>{value ? formatCoordinates(value) : "Click the map to drop a pin"}</span>
+        <div className="flex gap-2">
+          {value && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+              <X className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+          <Button type="button" variant="outline" size="sm" onClick={handleLocate} disabled={locating}>
+            <Crosshair className="mr-2 h-4 w-4" />
+            {locating ? "Locating..." : "Use my location"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
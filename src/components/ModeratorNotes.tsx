@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, Lock, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ReportNote {
+  id: string;
+  author_id: string | null;
+  body: string;
+  created_at: string;
+}
+
+export function ModeratorNotes({ reportId }: { reportId: string }) {
+  const [open, setOpen] = useState(false);
+  const [notes, setNotes] = useState<ReportNote[]>([]);
+  const [body, setBody] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchNotes = useCallback(async () => {
+    const { data } = await supabase
+      .from("report_notes")
+      .select("id, author_id, body, created_at")
+      .eq("report_id", reportId)
+      .order("created_at", { ascending: true });
+
+    if (data) {
+      setNotes(data);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    if (open) fetchNotes();
+  }, [open, fetchNotes]);
+
+  const addNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !body.trim()) return;
+
+    setSaving(true);
+    const { error } = await supabase.from("report_notes").insert({
+      report_id: reportId,
+      author_id: user.id,
+      body: body.trim(),
+    });
+
+    if (error) {
+      toast({
+        title: "Failed to add note",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setBody("");
+      fetchNotes();
+    }
+    setSaving(false);
+  };
+
+  const deleteNote = async (noteId: string) => {
+    const { error } = await supabase.from("report_notes").delete().eq("id", noteId);
+
+    if (error) {
+      toast({
+        title: "Failed to delete note",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setNotes((current) => current.filter((note) => note.id !== noteId));
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-0">
+          <Lock className="mr-2 h-4 w-4" />
+          Internal notes
+          <ChevronDown className={cn("ml-1 h-4 w-4 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        <p className="text-xs text-muted-foreground">Only moderators can see these notes.</p>
+        {notes.map((note) => (
+          <div key={note.id} className="rounded-md bg-muted p-3 text-sm">
+            <div className="mb-1 flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {note.author_id === user?.id ? "You" : `Moderator ${note.author_id?.slice(0, 8) ?? "unknown"}`} ·{" "}
+                {new Date(note.created_at).toLocaleString()}
+              </span>
+              {note.author_id === user?.id && (
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => deleteNote(note.id)}>
+                  <Trash2 className="h-3 w-3" />
+                  <span className="sr-only">Delete note</span>
+                </Button>
+              )}
+            </div>
+            <p className="whitespace-pre-wrap">{note.body}</p>
+          </div>
+        ))}
+        <form onSubmit={addNote} className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Add an internal note"
+            maxLength={2000}
+            rows={2}
+          />
+          <Button type="submit" size="sm" variant="secondary" disabled={saving || !body.trim()}>
+            {saving ? "Saving..." : "Add note"}
+          </Button>
+        </form>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,10 +1,10 @@
 import { Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, LayoutDashboard, FileText, Shield, LogOut } from "lucide-react";
+import { AlertCircle, LayoutDashboard, FileText, Shield, LogOut, Map, ListChecks, Tags, Users } from "lucide-react";
 
 export function Navigation() {
-  const { role, signOut } = useAuth();
+  const { hasRole, signOut } = useAuth();
 
   return (
     <nav className="border-b border-border bg-card">
@@ -20,7 +20,13 @@ export function Navigation() {
               Dashboard
             </Button>
           </Link>
-          {role === "USER" && (
+          <Link to="/map">
+            <Button variant="ghost" size="sm">
+              <Map className="mr-2 h-4 w-4" />
+              Map
+            </Button>
+          </Link>
+          {hasRole("USER") && (
             <Link to="/submit-report">
               <Button variant="ghost" size="sm">
                 <FileText className="mr-2 h-4 w-4" />
@@ -28,7 +34,15 @@ export function Navigation() {
               </Button>
             </Link>
           )}
-          {role === "MODERATOR" && (
+          {hasRole("USER") && (
+            <Link to="/my-reports">
+              <Button variant="ghost" size="sm">
+                <ListChecks className="mr-2 h-4 w-4" />
+                My Reports
+              </Button>
+            </Link>
+          )}
+          {hasRole("MODERATOR") && (
             <Link to="/moderate">
               <Button variant="ghost" size="sm">
                 <Shield className="mr-2 h-4 w-4" />
@@ -36,6 +50,22 @@ export function Navigation() {
               </Button>
             </Link>
           )}
+          {hasRole("MODERATOR") && (
+            <Link to="/admin/categories">
+              <Button variant="ghost" size="sm">
+                <Tags className="mr-2 h-4 w-4" />
+                Categories
+              </Button>
+            </Link>
+          )}
+          {hasRole("ADMIN") && (
+            <Link to="/admin/users">
+              <Button variant="ghost" size="sm">
+                <Users className="mr-2 h-4 w-4" />
+                Users
+              </Button>
+            </Link>
+          )}
           <Button variant="ghost" size="sm" onClick={signOut}>
             <LogOut className="mr-2 h-4 w-4" />
             Sign Out
@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { isCriticalPriority } from "@/lib/reports";
+import { Flame, Gauge } from "lucide-react";
+
+interface PriorityBadgeProps {
+  score: number;
+  // Whether a moderator set the score by hand
+  overridden?: boolean;
+  className?: string;
+}
+
+export function PriorityBadge({ score, overridden, className }: PriorityBadgeProps) {
+  const critical = isCriticalPriority(score);
+  const Icon = critical ? Flame : Gauge;
+
+  return (
+    <Badge
+      variant={critical ? "destructive" : "outline"}
+      className={cn("gap-1", className)}
+      title={overridden ? "Priority set by a moderator" : "Priority from severity, confirmations, age and category"}
+    >
+      <Icon className="h-3 w-3" />
+      {critical ? "Critical" : "Priority"} {score}
+      {overridden && "*"}
+    </Badge>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { PriorityBadge } from "@/components/PriorityBadge";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+
+const overrideSchema = z
+  .number({ invalid_type_error: "Enter a score" })
+  .int("The score must be a whole number")
+  .min(0, "The score must be between 0 and 100")
+  .max(100, "The score must be between 0 and 100");
+
+interface PriorityOverrideProps {
+  reportId: string;
+  score: number;
+  override: number | null;
+}
+
+// Priority badge that lets moderators pin the score or hand it back to the formula
+export function PriorityOverride({ reportId, score, override }: PriorityOverrideProps) {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setValue(String(override ?? score));
+  }, [open, override, score]);
+
+  const save = async (priorityOverride: number | null) => {
+    setSaving(true);
+    const { error } = await supabase
+      .from("reports")
+      .update({ priority_override: priorityOverride })
+      .eq("id", reportId);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Failed to update priority",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setOpen(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationResult = overrideSchema.safeParse(value === "" ? undefined : Number(value));
+    if (!validationResult.success) {
+      toast({
+        title: "Validation failed",
+        description: validationResult.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+    save(validationResult.data);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" aria-label="Change priority">
+          <PriorityBadge score={score} overridden={override !== null} className="cursor-pointer" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor={`priority-${reportId}`}>Priority score (0-100)</Label>
+            <Input
+              id={`priority-${reportId}`}
+              type="number"
+              min={0}
+              max={100}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            {override !== null && (
+              <Button type="button" size="sm" variant="ghost" disabled={saving} onClick={() => save(null)}>
+                Use computed
+              </Button>
+            )}
+            <Button type="submit" size="sm" disabled={saving}>
+              Override
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,14 +1,15 @@
-import { Navigate } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
+import { Navigate, useLocation } from "react-router-dom";
+import { UserRole, useAuth } from "@/contexts/AuthContext";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: ("USER" | "MODERATOR")[];
+  allowedRoles?: UserRole[];
 }
 
 export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
-  const { user, role, loading } = useAuth();
+  const { user, hasRole, loading } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -19,10 +20,12 @@ export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps)
   }
 
   if (!user) {
-    return <Navigate to="/login" replace />;
+    // Login sends the user back here, so shared links survive signing in
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
   }
 
-  if (allowedRoles && role && !allowedRoles.includes(role)) {
+  // Any one of the allowed roles is enough
+  if (allowedRoles && !allowedRoles.some(hasRole)) {
     return <Navigate to="/dashboard" replace />;
   }
 
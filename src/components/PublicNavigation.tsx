@@ -0,0 +1,35 @@
+import { Link } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, LayoutDashboard, LogIn } from "lucide-react";
+
+// Header for the public portal, which works without signing in
+export function PublicNavigation() {
+  const { user } = useAuth();
+
+  return (
+    <nav className="border-b border-border bg-card">
+      <div className="container mx-auto flex h-16 items-center justify-between px-4">
+        <Link to="/public" className="flex items-center gap-2">
+          <AlertCircle className="h-6 w-6 text-primary" />
+          <span className="text-xl font-bold">Smart Alert</span>
+        </Link>
+        {user ? (
+          <Link to="/dashboard">
+            <Button variant="ghost" size="sm">
+              <LayoutDashboard className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </Link>
+        ) : (
+          <Link to="/login">
+            <Button variant="ghost" size="sm">
+              <LogIn className="mr-2 h-4 w-4" />
+              Sign in to report
+            </Button>
+          </Link>
+        )}
+      </div>
+    </nav>
+  );
+}
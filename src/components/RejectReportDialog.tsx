@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Constants } from "@/integrations/supabase/types";
+import { REJECTION_REASON_LABELS } from "@/lib/reports";
+import { z } from "zod";
+
+const rejectionSchema = z
+  .object({
+    reason: z.enum(Constants.public.Enums.rejection_reason, {
+      required_error: "Select a rejection reason",
+    }),
+    details: z.string().trim().max(1000, "Details must be less than 1000 characters").optional(),
+  })
+  .refine((value) => value.reason !== "other" || !!value.details, {
+    message: "Explain the reason when selecting Other",
+  });
+
+export type Rejection = z.infer<typeof rejectionSchema>;
+
+interface RejectReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (rejection: Rejection) => Promise<void>;
+}
+
+export function RejectReportDialog({ open, onOpenChange, onConfirm }: RejectReportDialogProps) {
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setReason("");
+      setDetails("");
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationResult = rejectionSchema.safeParse({
+      reason: reason || undefined,
+      details: details || undefined,
+    });
+
+    if (!validationResult.success) {
+      setError(validationResult.error.errors[0].message);
+      return;
+    }
+
+    setSubmitting(true);
+    await onConfirm(validationResult.data);
+    setSubmitting(false);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Reject report</DialogTitle>
+            <DialogDescription>The reason and details are shown to the citizen who submitted it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REJECTION_REASON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-details">
+              Details {reason === "other" ? "" : "(optional)"}
+            </Label>
+            <Textarea
+              id="rejection-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              rows={3}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={submitting}>
+              {submitting ? "Rejecting..." : "Reject report"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Globe, Lock, MessageSquare, Reply, Trash2 } from "lucide-react";
+import { CommentThread, MAX_COMMENT_DEPTH, ReportComment, buildCommentThreads, commentSchema } from "@/lib/comments";
+import { ReportStatus, isPublicStatus } from "@/lib/reports";
+import { cn } from "@/lib/utils";
+
+interface ReportCommentsProps {
+  reportId: string;
+  ownerId: string;
+  status: ReportStatus;
+}
+
+interface CommentComposerProps {
+  placeholder: string;
+  submitLabel: string;
+  // Whether the author may choose between a private and a public comment
+  showVisibility: boolean;
+  onSubmit: (body: string, isPublic: boolean) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+function CommentComposer({ placeholder, submitLabel, showVisibility, onSubmit, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationResult = commentSchema.safeParse({ body });
+    if (!validationResult.success) {
+      toast({
+        title: "Validation error",
+        description: validationResult.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    if (await onSubmit(validationResult.data.body, isPublic)) {
+      setBody("");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={2000}
+        rows={2}
+      />
+      <div className="flex flex-wrap items-center gap-4">
+        <Button type="submit" size="sm" disabled={saving || !body.trim()}>
+          {saving ? "Posting..." : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        {showVisibility && (
+          <div className="flex items-center gap-2">
+            <Switch id="comment-public" checked={isPublic} onCheckedChange={setIsPublic} />
+            <Label htmlFor="comment-public" className="text-sm font-normal">
+              Visible to everyone
+            </Label>
+          </div>
+        )}
+      </div>
+    </form>
+  );
+}
+
+// Threaded discussion on a report. Private comments are between the author
+// and moderators; once the report is public anyone signed in can join the
+// public thread.
+export function ReportComments({ reportId, ownerId, status }: ReportCommentsProps) {
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const { user, hasRole } = useAuth();
+  const { toast } = useToast();
+
+  const isParticipant = user?.id === ownerId || hasRole("MODERATOR");
+  const reportIsPublic = isPublicStatus(status);
+  const canComment = isParticipant || reportIsPublic;
+  // Moderators remove abuse; everyone can take back their own comments
+  const canDelete = (comment: ReportComment) => hasRole("MODERATOR") || comment.author_id === user?.id;
+
+  const fetchComments = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("report_comments")
+      .select("id, report_id, parent_id, author_id, body, is_public, from_moderator, created_at")
+      .eq("report_id", reportId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast({
+        title: "Failed to load comments",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setComments(data);
+    }
+    setLoading(false);
+  }, [reportId, toast]);
+
+  useEffect(() => {
+    fetchComments();
+
+    const channel = supabase
+      .channel(`report-comments-${reportId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "report_comments",
+          filter: `report_id=eq.${reportId}`,
+        },
+        () => {
+          fetchComments();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [reportId, fetchComments]);
+
+  const postComment = async (body: string, isPublic: boolean, parentId: string | null = null) => {
+    if (!user) return false;
+
+    // Other residents can only take part in the public thread; replies take
+    // their thread's visibility in the database
+    const { error } = await supabase.from("report_comments").insert({
+      report_id: reportId,
+      parent_id: parentId,
+      author_id: user.id,
+      body,
+      is_public: isParticipant ? isPublic : true,
+    });
+
+    if (error) {
+      toast({
+        title: "Failed to post comment",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setReplyingTo(null);
+    await fetchComments();
+    return true;
+  };
+
+  const deleteComment = async (commentId: string) => {
+    setDeletingId(null);
+
+    const { error } = await supabase.from("report_comments").delete().eq("id", commentId);
+
+    if (error) {
+      toast({
+        title: "Failed to delete comment",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await fetchComments();
+  };
+
+  const describeAuthor = (comment: ReportComment) => {
+    if (!comment.author_id) return "Deleted user";
+    if (comment.author_id === user?.id) return "You";
+    if (comment.author_id === ownerId) return "Reporter";
+    return comment.from_moderator ? "Moderator" : "Resident";
+  };
+
+  const renderThread = (thread: CommentThread, depth: number) => (
+    <li key={thread.id} className="space-y-3">
+      <div className="rounded-md bg-muted p-3 text-sm">
+        <div className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{describeAuthor(thread)}</span>
+          <span>{new Date(thread.created_at).toLocaleString()}</span>
+          {isParticipant &&
+            (thread.is_public ? (
+              <Globe className="h-3 w-3" aria-label="Public" />
+            ) : (
+              <Lock className="h-3 w-3" aria-label="Private" />
+            ))}
+        </div>
+        <p className="whitespace-pre-wrap">{thread.body}</p>
+        <div className="flex gap-1">
+          {canComment && (isParticipant || thread.is_public) && replyingTo !== thread.id && (
+            <Button variant="ghost" size="sm" className="mt-1 h-7 px-2" onClick={() => setReplyingTo(thread.id)}>
+              <Reply className="mr-1 h-3 w-3" />
+              Reply
+            </Button>
+          )}
+          {canDelete(thread) && (
+            <Button variant="ghost" size="sm" className="mt-1 h-7 px-2" onClick={() => setDeletingId(thread.id)}>
+              <Trash2 className="mr-1 h-3 w-3" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+      {replyingTo === thread.id && (
+        <CommentComposer
+          placeholder="Write a reply"
+          submitLabel="Reply"
+          showVisibility={false}
+          onSubmit={(body) => postComment(body, thread.is_public, thread.id)}
+          onCancel={() => setReplyingTo(null)}
+        />
+      )}
+      {thread.replies.length > 0 && (
+        <ul className={cn("space-y-3", depth < MAX_COMMENT_DEPTH && "ml-4 border-l border-border pl-4")}>
+          {thread.replies.map((reply) => renderThread(reply, depth + 1))}
+        </ul>
+      )}
+    </li>
+  );
+
+  const threads = buildCommentThreads(comments);
+
+  return (
+    <div className="space-y-3">
+      <h2 className="flex items-center gap-2 font-semibold">
+        <MessageSquare className="h-4 w-4" />
+        Comments
+      </h2>
+      {isParticipant && (
+        <p className="text-xs text-muted-foreground">
+          Comments are only visible to the reporter and moderators unless marked as visible to everyone.
+        </p>
+      )}
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading comments...</p>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet.</p>
+      ) : (
+        <ul className="space-y-3">{threads.map((thread) => renderThread(thread, 1))}</ul>
+      )}
+      {canComment && (
+        <CommentComposer
+          placeholder={isParticipant ? "Add a comment" : "Add a public comment"}
+          submitLabel="Comment"
+          showVisibility={isParticipant && reportIsPublic}
+          onSubmit={(body, isPublic) => postComment(body, isPublic)}
+        />
+      )}
+      <AlertDialog open={deletingId !== null} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Replies to it are deleted as well. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingId && deleteComment(deletingId)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
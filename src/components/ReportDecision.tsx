@@ -0,0 +1,78 @@
+import { Archive, CheckCheck, CheckCircle, Clock, Undo2, Wrench, XCircle } from "lucide-react";
+import { REJECTION_REASON_LABELS, RejectionReason, ReportStatus } from "@/lib/reports";
+
+interface ReportDecisionProps {
+  status: ReportStatus;
+  verifiedAt: string | null;
+  rejectionReason: RejectionReason | null;
+  rejectionDetails: string | null;
+}
+
+export function ReportDecision({ status, verifiedAt, rejectionReason, rejectionDetails }: ReportDecisionProps) {
+  if (status === "pending") {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Clock className="h-4 w-4" />
+        Awaiting review by a moderator
+      </div>
+    );
+  }
+
+  if (status === "withdrawn") {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Undo2 className="h-4 w-4" />
+        Withdrawn by the reporter
+      </div>
+    );
+  }
+
+  const decidedOn = verifiedAt ? ` on ${new Date(verifiedAt).toLocaleDateString()}` : "";
+
+  if (status === "rejected") {
+    return (
+      <div className="rounded-md border border-destructive/50 p-3 text-sm">
+        <p className="flex items-center gap-2 font-medium">
+          <XCircle className="h-4 w-4 text-destructive" />
+          Rejected{decidedOn}
+          {rejectionReason && `: ${REJECTION_REASON_LABELS[rejectionReason]}`}
+        </p>
+        {rejectionDetails && <p className="mt-1 text-muted-foreground">{rejectionDetails}</p>}
+      </div>
+    );
+  }
+
+  if (status === "in_progress") {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <Wrench className="h-4 w-4 text-primary" />
+        Verified{decidedOn}, work is in progress
+      </div>
+    );
+  }
+
+  if (status === "resolved") {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <CheckCheck className="h-4 w-4 text-success" />
+        Resolved, the issue has been fixed
+      </div>
+    );
+  }
+
+  if (status === "closed") {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Archive className="h-4 w-4" />
+        Closed
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <CheckCircle className="h-4 w-4 text-success" />
+      Verified by a moderator{decidedOn}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useCategories } from "@/contexts/CategoriesContext";
+import { DetailValue, ReportDetails as Details, getCategoryFields } from "@/lib/categories";
+
+interface ReportDetailsProps {
+  category: string;
+  details: Details;
+}
+
+const formatValue = (value: DetailValue) => (typeof value === "boolean" ? (value ? "Yes" : "No") : String(value));
+
+// Answers to the category's extra questions, labelled from its field list
+export function ReportDetails({ category, details }: ReportDetailsProps) {
+  const { getCategory } = useCategories();
+  const fields = getCategoryFields(getCategory(category));
+  const answered = fields.filter((field) => details[field.key] !== undefined && details[field.key] !== "");
+
+  if (answered.length === 0) return null;
+
+  return (
+    <dl className="grid gap-x-4 gap-y-1 rounded-md bg-muted/50 p-3 text-sm sm:grid-cols-[auto_1fr]">
+      {answered.map((field) => (
+        <div key={field.key} className="contents">
+          <dt className="text-muted-foreground">{field.label}</dt>
+          <dd className="font-medium">{formatValue(details[field.key])}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
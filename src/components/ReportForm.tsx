@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LocationPicker } from "@/components/LocationPicker";
+import { CategoryFieldsInput } from "@/components/CategoryFieldsInput";
+import { useToast } from "@/hooks/use-toast";
+import { Coordinates } from "@/lib/map";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { ReportInput, ReportSeverity, SEVERITY_DESCRIPTIONS, SEVERITY_LABELS, reportSchema } from "@/lib/reports";
+import { ReportDetails, buildDetailsSchema, getCategoryFields } from "@/lib/categories";
+
+export interface ReportFormValues {
+  title: string;
+  category: string;
+  severity: ReportSeverity;
+  description: string;
+  location: string;
+  coordinates: Coordinates | null;
+  details: ReportDetails;
+}
+
+interface ReportFormProps {
+  initialValues?: Partial<ReportFormValues>;
+  // Optionally control the map pin, e.g. to fill it from photo metadata
+  coordinates?: Coordinates | null;
+  onCoordinatesChange?: (coordinates: Coordinates | null) => void;
+  // Notified on every edit, e.g. to look up similar reports while typing
+  onValuesChange?: (values: ReportFormValues) => void;
+  submitLabel: string;
+  submittingLabel: string;
+  // Receives the validated input; the form stays disabled until it settles
+  onSubmit: (input: ReportInput) => Promise<void>;
+  // Extra fields rendered above the submit button
+  children?: React.ReactNode;
+}
+
+export function ReportForm({
+  initialValues,
+  coordinates: controlledCoordinates,
+  onCoordinatesChange,
+  onValuesChange,
+  submitLabel,
+  submittingLabel,
+  onSubmit,
+  children,
+}: ReportFormProps) {
+  const [title, setTitle] = useState(initialValues?.title ?? "");
+  const [category, setCategory] = useState(initialValues?.category ?? "");
+  const [severity, setSeverity] = useState<ReportSeverity>(initialValues?.severity ?? "medium");
+  const [description, setDescription] = useState(initialValues?.description ?? "");
+  const [location, setLocation] = useState(initialValues?.location ?? "");
+  const [details, setDetails] = useState<ReportDetails>(initialValues?.details ?? {});
+  const [ownCoordinates, setOwnCoordinates] = useState<Coordinates | null>(initialValues?.coordinates ?? null);
+  const coordinates = controlledCoordinates !== undefined ? controlledCoordinates : ownCoordinates;
+  const setCoordinates = onCoordinatesChange ?? setOwnCoordinates;
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { activeCategories, getCategory } = useCategories();
+  // A report keeps its category if that was retired after submission
+  const initialCategory = initialValues?.category ? getCategory(initialValues.category) : undefined;
+  const categoryOptions =
+    initialCategory && !initialCategory.is_active ? [...activeCategories, initialCategory] : activeCategories;
+  const fields = getCategoryFields(getCategory(category));
+
+  useEffect(() => {
+    onValuesChange?.({ title, category, severity, description, location, coordinates, details });
+  }, [title, category, severity, description, location, coordinates, details, onValuesChange]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Validate inputs
+    const validationResult = reportSchema.safeParse({
+      title,
+      category,
+      severity,
+      description,
+      location: location || undefined,
+      latitude: coordinates?.latitude,
+      longitude: coordinates?.longitude,
+    });
+    // Answers for another category are dropped, as the schema strips unknown keys
+    const detailsResult = buildDetailsSchema(fields).safeParse(details);
+
+    if (!validationResult.success || !detailsResult.success) {
+      const firstError = (validationResult.error ?? detailsResult.error).errors[0];
+      toast({
+        title: "Validation failed",
+        description: firstError.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    await onSubmit({ ...validationResult.data, details: detailsResult.data });
+    setLoading(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="title">Title</Label>
+        <Input
+          id="title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={200}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="category">Category</Label>
+        <Select value={category} onValueChange={setCategory} required>
+          <SelectTrigger>
+            <SelectValue placeholder="Select category" />
+          </SelectTrigger>
+          <SelectContent>
+            {categoryOptions.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <CategoryFieldsInput fields={fields} values={details} onChange={setDetails} />
+      <div className="space-y-2">
+        <Label htmlFor="severity">Severity</Label>
+        <Select value={severity} onValueChange={(value: ReportSeverity) => setSeverity(value)}>
+          <SelectTrigger id="severity">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SEVERITY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+                <span className="ml-2 text-muted-foreground">{SEVERITY_DESCRIPTIONS[value as ReportSeverity]}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={2000}
+          rows={4}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="location">Location (optional)</Label>
+        <Input
+          id="location"
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          maxLength={500}
+          placeholder="e.g., Main Street, near the park"
+        />
+        <LocationPicker value={coordinates} onChange={setCoordinates} />
+      </div>
+      {children}
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? submittingLabel : submitLabel}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import L from "leaflet";
+import { CircleMarker, MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import { Badge } from "@/components/ui/badge";
+import {
+  DEFAULT_CENTER,
+  DEFAULT_ZOOM,
+  TILE_LAYER_ATTRIBUTION,
+  TILE_LAYER_URL,
+  clusterByGrid,
+} from "@/lib/map";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { FALLBACK_CATEGORY_COLOR } from "@/lib/categories";
+import { ReportStatus, STATUS_LABELS, STATUS_MARKER_COLORS } from "@/lib/reports";
+
+export interface MapReport {
+  id: string;
+  title: string;
+  category: string;
+  status: ReportStatus;
+  location: string | null;
+  latitude: number;
+  longitude: number;
+  created_at: string;
+}
+
+interface ReportMapProps {
+  reports: MapReport[];
+  className?: string;
+  // Adds a link to each marker's popup, e.g. to the report's permalink
+  getReportLink?: (report: MapReport) => string;
+}
+
+const clusterIcon = (count: number) =>
+  L.divIcon({
+    html: `<div class="flex h-10 w-10 items-center justify-center rounded-full border-2 border-background bg-primary text-sm font-bold text-primary-foreground shadow-md">${count}</div>`,
+    className: "",
+    iconSize: [40, 40],
+  });
+
+function FitToReports({ reports }: { reports: MapReport[] }) {
+  const map = useMap();
+  const fitted = useRef(false);
+
+  // Frame the reports once on first load; later updates keep the user's view
+  useEffect(() => {
+    if (fitted.current || reports.length === 0) return;
+    fitted.current = true;
+    map.fitBounds(
+      L.latLngBounds(reports.map((report) => [report.latitude, report.longitude])),
+      { padding: [40, 40], maxZoom: 15 }
+    );
+  }, [map, reports]);
+
+  return null;
+}
+
+function ClusterLayer({ reports, getReportLink }: Pick<ReportMapProps, "reports" | "getReportLink">) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  const { getCategory } = useCategories();
+
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+  });
+
+  const clusters = clusterByGrid(reports, map, zoom);
+
+  return (
+    <>
+      {clusters.map((cluster) => {
+        if (cluster.items.length > 1) {
+          return (
+            <Marker
+              key={cluster.items.map((report) => report.id).join(",")}
+              position={[cluster.latitude, cluster.longitude]}
+              icon={clusterIcon(cluster.items.length)}
+              eventHandlers={{
+                click: () => map.flyTo([cluster.latitude, cluster.longitude], zoom + 2),
+              }}
+            />
+          );
+        }
+
+        const report = cluster.items[0];
+        return (
+          <CircleMarker
+            key={report.id}
+            center={[report.latitude, report.longitude]}
+            radius={9}
+            pathOptions={{
+              color: STATUS_MARKER_COLORS[report.status],
+              fillColor: getCategory(report.category)?.color ?? FALLBACK_CATEGORY_COLOR,
+              fillOpacity: 0.9,
+              weight: 3,
+            }}
+          >
+            <Popup>
+              <div className="space-y-1">
+                <p className="font-semibold">{report.title}</p>
+                <div className="flex gap-1">
+                  <CategoryBadge category={report.category} />
+                  <Badge variant="outline">{STATUS_LABELS[report.status]}</Badge>
+                </div>
+                {report.location && <p className="text-muted-foreground">{report.location}</p>}
+                <p className="text-muted-foreground">{new Date(report.created_at).toLocaleDateString()}</p>
+                {getReportLink && (
+                  <Link to={getReportLink(report)} className="text-primary hover:underline">
+                    View report
+                  </Link>
+                )}
+              </div>
+            </Popup>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+}
+
+export function ReportMap({ reports, className, getReportLink }: ReportMapProps) {
+  return (
+    <MapContainer center={DEFAULT_CENTER} zoom={DEFAULT_ZOOM} className={className}>
+      <TileLayer url={TILE_LAYER_URL} attribution={TILE_LAYER_ATTRIBUTION} />
+      <FitToReports reports={reports} />
+      <ClusterLayer reports={reports} getReportLink={getReportLink} />
+    </MapContainer>
+  );
+}
+
+export function ReportMapLegend() {
+  const { activeCategories } = useCategories();
+
+  return (
+    <div className="flex flex-wrap gap-6 text-sm text-muted-foreground">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium text-foreground">Category</span>
+        {activeCategories.map((category) => (
+          <span key={category.id} className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: category.color }} />
+            {category.label}
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium text-foreground">Status</span>
+        {Object.entries(STATUS_MARKER_COLORS).map(([status, color]) => (
+          <span key={status} className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full border-2" style={{ borderColor: color }} />
+            {STATUS_LABELS[status as ReportStatus]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
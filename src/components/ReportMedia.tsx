@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Film } from "lucide-react";
+import { ReportAttachment, getPreviewPath } from "@/lib/attachments";
+import { useSignedUrls } from "@/hooks/use-signed-urls";
+
+interface ReportMediaProps {
+  attachments: ReportAttachment[];
+  // Thumbnails render a compact strip that opens the full media on click
+  variant?: "carousel" | "thumbnails";
+}
+
+interface MediaCarouselProps {
+  items: ReportAttachment[];
+  urls: Record<string, string>;
+  startIndex?: number;
+}
+
+function MediaCarousel({ items, urls, startIndex = 0 }: MediaCarouselProps) {
+  return (
+    <Carousel className="w-full" opts={{ startIndex }}>
+      <CarouselContent>
+        {items.map((attachment, index) => (
+          <CarouselItem key={attachment.id}>
+            {attachment.media_type === "video" ? (
+              <video
+                src={urls[attachment.storage_path]}
+                poster={attachment.thumbnail_path ? urls[attachment.thumbnail_path] : undefined}
+                controls
+                preload="metadata"
+                className="max-h-[70vh] min-h-48 w-full rounded-md bg-black object-contain"
+              />
+            ) : (
+              <img
+                src={urls[attachment.storage_path]}
+                alt={`Report attachment ${index + 1}`}
+                className="max-h-[70vh] min-h-48 w-full rounded-md object-contain"
+              />
+            )}
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      {items.length > 1 && (
+        <>
+          <CarouselPrevious type="button" className="left-2" />
+          <CarouselNext type="button" className="right-2" />
+        </>
+      )}
+    </Carousel>
+  );
+}
+
+export function ReportMedia({ attachments, variant = "carousel" }: ReportMediaProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const items = [...attachments].sort((a, b) => a.position - b.position);
+  const urls = useSignedUrls(items.flatMap((attachment) => [attachment.storage_path, attachment.thumbnail_path]));
+
+  if (items.length === 0) return null;
+
+  if (variant === "carousel") {
+    return <MediaCarousel items={items} urls={urls} />;
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {items.map((attachment, index) => {
+          const previewPath = getPreviewPath(attachment);
+          return (
+            <button
+              key={attachment.id}
+              type="button"
+              onClick={() => setOpenIndex(index)}
+              className="relative h-20 w-20 overflow-hidden rounded-md border border-border bg-muted"
+            >
+              {previewPath && urls[previewPath] ? (
+                <img
+                  src={urls[previewPath]}
+                  alt={`Report attachment ${index + 1}`}
+                  loading="lazy"
+                  className="h-full w-full object-cover"
+                />
+              ) : null}
+              {attachment.media_type === "video" && (
+                <Film className="absolute bottom-1 right-1 h-4 w-4 text-white drop-shadow" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+      <Dialog open={openIndex !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogTitle className="sr-only">Report attachments</DialogTitle>
+          {openIndex !== null && <MediaCarousel items={items} urls={urls} startIndex={openIndex} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, History } from "lucide-react";
+import { ReportStatus, STATUS_LABELS } from "@/lib/reports";
+import { cn } from "@/lib/utils";
+
+interface ReportEvent {
+  id: string;
+  actor_id: string | null;
+  from_status: ReportStatus | null;
+  to_status: ReportStatus;
+  note: string | null;
+  created_at: string;
+}
+
+interface ReportTimelineProps {
+  reportId: string;
+  ownerId: string;
+  // Refetch the history whenever the report's status moves
+  status: ReportStatus;
+  defaultOpen?: boolean;
+}
+
+export function ReportTimeline({ reportId, ownerId, status, defaultOpen = false }: ReportTimelineProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const [events, setEvents] = useState<ReportEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchEvents = async () => {
+      const { data } = await supabase
+        .from("report_events")
+        .select("id, actor_id, from_status, to_status, note, created_at")
+        .eq("report_id", reportId)
+        .order("created_at", { ascending: true });
+
+      if (data) {
+        setEvents(data);
+      }
+      setLoading(false);
+    };
+
+    fetchEvents();
+  }, [open, reportId, status]);
+
+  const describeActor = (actorId: string | null) => {
+    if (!actorId) return "System";
+    if (actorId === ownerId) return "Reporter";
+    return `Moderator ${actorId.slice(0, 8)}`;
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-0">
+          <History className="mr-2 h-4 w-4" />
+          History
+          <ChevronDown className={cn("ml-1 h-4 w-4 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No history recorded.</p>
+        ) : (
+          <ol className="relative ml-2 space-y-4 border-l border-border pl-4 pt-2">
+            {events.map((event) => (
+              <li key={event.id} className="relative text-sm">
+                <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                <p className="font-medium">
+                  {event.from_status
+                    ? `${STATUS_LABELS[event.from_status]} → ${STATUS_LABELS[event.to_status]}`
+                    : "Submitted"}
+                </p>
+                <p className="text-muted-foreground">
+                  {describeActor(event.actor_id)} · {new Date(event.created_at).toLocaleString()}
+                </p>
+                {event.note && <p className="mt-1 whitespace-pre-wrap">{event.note}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
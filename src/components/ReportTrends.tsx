@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from "react";
+import { eachDayOfInterval, format, parseISO, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useToast } from "@/hooks/use-toast";
+
+type ReportTrend = Database["public"]["Functions"]["get_report_trends"]["Returns"][number];
+type ModerationTrend = Database["public"]["Functions"]["get_moderation_trends"]["Returns"][number];
+
+const DEFAULT_RANGE_DAYS = 30;
+// Keeps the charts readable and the queries cheap
+const MAX_RANGE_DAYS = 366;
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+const formatDay = (day: string) => format(parseISO(day), "MMM d");
+
+const moderationConfig = {
+  rate: { label: "Verified", color: "hsl(var(--success))" },
+  hours: { label: "Median hours", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Daily charts over a selectable range; the database does the aggregation
+export function ReportTrends() {
+  const [from, setFrom] = useState(() => toDateInput(subDays(new Date(), DEFAULT_RANGE_DAYS - 1)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [reportTrends, setReportTrends] = useState<ReportTrend[]>([]);
+  const [moderationTrends, setModerationTrends] = useState<ModerationTrend[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { categories } = useCategories();
+  const { toast } = useToast();
+
+  const days = useMemo(() => {
+    if (!from || !to || from > to) return [];
+    return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) }).map(toDateInput);
+  }, [from, to]);
+  const validRange = days.length > 0 && days.length <= MAX_RANGE_DAYS;
+
+  useEffect(() => {
+    if (!validRange) return;
+
+    const fetchTrends = async () => {
+      setLoading(true);
+      const range = { _from: from, _to: to, _time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+      const [reports, moderation] = await Promise.all([
+        supabase.rpc("get_report_trends", range),
+        supabase.rpc("get_moderation_trends", range),
+      ]);
+
+      const error = reports.error ?? moderation.error;
+      if (error) {
+        toast({
+          title: "Failed to load trends",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        setReportTrends(reports.data);
+        setModerationTrends(moderation.data);
+      }
+      setLoading(false);
+    };
+
+    fetchTrends();
+  }, [from, to, validRange, toast]);
+
+  // Only categories that appear in the range get a bar and a legend entry
+  const reportedCategories = categories.filter((category) =>
+    reportTrends.some((trend) => trend.category === category.id)
+  );
+  const categoryConfig: ChartConfig = Object.fromEntries(
+    reportedCategories.map((category) => [category.id, { label: category.label, color: category.color }])
+  );
+
+  const submittedData = days.map((day) => ({
+    day,
+    ...Object.fromEntries(
+      reportedCategories.map((category) => [
+        category.id,
+        reportTrends.find((trend) => trend.day === day && trend.category === category.id)?.submitted ?? 0,
+      ])
+    ),
+  }));
+
+  // Days without reviews are left as gaps rather than drawn as zero
+  const moderationData = days.map((day) => {
+    const trend = moderationTrends.find((candidate) => candidate.day === day);
+    return {
+      day,
+      rate: trend?.reviewed ? Math.round((trend.verified / trend.reviewed) * 100) : null,
+      hours: trend ? Math.round(trend.median_hours * 10) / 10 : null,
+    };
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h2 className="text-xl font-semibold">Trends</h2>
+        <div className="flex gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="trends-from">From</Label>
+            <Input
+              id="trends-from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="trends-to">To</Label>
+            <Input
+              id="trends-to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+      {!validRange ? (
+        <p className="text-sm text-muted-foreground">Select a range of up to {MAX_RANGE_DAYS} days.</p>
+      ) : (
+        <div className={loading ? "opacity-60" : undefined}>
+          <Card className="mb-4">
+            <CardHeader>
+              <CardTitle className="text-base">Reports per day</CardTitle>
+              <CardDescription>By category</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={categoryConfig} className="h-64 w-full">
+                <BarChart data={submittedData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {reportedCategories.map((category) => (
+                    <Bar key={category.id} dataKey={category.id} stackId="reports" fill={`var(--color-${category.id})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Verification rate</CardTitle>
+                <CardDescription>Share of reviewed reports that were verified</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={moderationConfig} className="h-48 w-full">
+                  <LineChart data={moderationData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <Line dataKey="rate" stroke="var(--color-rate)" strokeWidth={2} dot={false} connectNulls />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Time to moderation</CardTitle>
+                <CardDescription>Median hours from submission to review</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={moderationConfig} className="h-48 w-full">
+                  <LineChart data={moderationData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <Line dataKey="hours" stroke="var(--color-hours)" strokeWidth={2} dot={false} connectNulls />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Coordinates, formatDistance } from "@/lib/map";
+import { ReportStatus, STATUS_LABELS, getStatusColor } from "@/lib/reports";
+import { Copy, ThumbsUp } from "lucide-react";
+
+// Wait for the user to pause typing before searching
+const SEARCH_DELAY = 400;
+const MIN_TITLE_LENGTH = 4;
+
+interface SimilarReport {
+  id: string;
+  // Withheld, along with the distance, for other residents' pending reports
+  title: string | null;
+  location: string | null;
+  status: ReportStatus;
+  created_at: string;
+  distance_meters: number | null;
+  is_own: boolean;
+}
+
+interface SimilarReportsProps {
+  category: string;
+  title: string;
+  coordinates: Coordinates | null;
+  // Called after the user added their confirmation to an existing report
+  onConfirmed: (reportId: string) => void;
+}
+
+export function SimilarReports({ category, title, coordinates, onConfirmed }: SimilarReportsProps) {
+  const [reports, setReports] = useState<SimilarReport[]>([]);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const searchTitle = title.trim();
+  const latitude = coordinates?.latitude;
+  const longitude = coordinates?.longitude;
+
+  useEffect(() => {
+    if (!category || (searchTitle.length < MIN_TITLE_LENGTH && latitude === undefined)) {
+      setReports([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data } = await supabase.rpc("find_similar_reports", {
+        _category: category,
+        _title: searchTitle,
+        _latitude: latitude,
+        _longitude: longitude,
+      });
+
+      if (!cancelled) setReports(data ?? []);
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [category, searchTitle, latitude, longitude]);
+
+  const handleConfirm = async (reportId: string) => {
+    if (!user) return;
+
+    setConfirmingId(reportId);
+    const { error } = await supabase.from("report_confirmations").insert({ report_id: reportId, user_id: user.id });
+    setConfirmingId(null);
+
+    // A unique violation means this user already confirmed the report
+    if (error && error.code !== "23505") {
+      toast({
+        title: "Confirmation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Thanks for confirming",
+      description: "We've added you to the people affected by this report.",
+    });
+    onConfirmed(reportId);
+  };
+
+  if (reports.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-md border border-accent/50 bg-accent/5 p-3">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Copy className="h-4 w-4 text-accent" />
+        Has this already been reported?
+      </p>
+      <p className="text-sm text-muted-foreground">
+        These recent reports look similar. If one of them describes your issue, confirm it instead of filing a new
+        report.
+      </p>
+      <ul className="space-y-2">
+        {reports.map((report) => (
+          <li key={report.id} className="flex items-center justify-between gap-3 rounded-md bg-background p-2">
+            <div className="min-w-0 space-y-1">
+              <p className="truncate text-sm font-medium">{report.title ?? "A report awaiting review"}</p>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <Badge className={getStatusColor(report.status)}>{STATUS_LABELS[report.status]}</Badge>
+                {report.distance_meters !== null && <span>within {formatDistance(report.distance_meters)}</span>}
+                {report.location && <span className="truncate">{report.location}</span>}
+                <span>{new Date(report.created_at).toLocaleDateString()}</span>
+              </div>
+            </div>
+            {report.is_own ? (
+              <span className="shrink-0 text-xs text-muted-foreground">Your report</span>
+            ) : (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="shrink-0"
+                disabled={confirmingId !== null}
+                onClick={() => handleConfirm(report.id)}
+              >
+                <ThumbsUp className="mr-2 h-4 w-4" />
+                +1
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
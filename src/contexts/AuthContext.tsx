@@ -1,13 +1,17 @@
-import { createContext, useContext, useEffect, useState } from "react";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
 import { User } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
 
-type UserRole = "USER" | "MODERATOR";
+export type UserRole = "USER" | "MODERATOR" | "ADMIN";
 
 interface AuthContextType {
   user: User | null;
-  role: UserRole | null;
+  // Every role the user holds, e.g. a moderator usually keeps USER as well
+  roles: UserRole[];
+  hasRole: (role: UserRole) => boolean;
   loading: boolean;
   signOut: () => Promise<void>;
 }
@@ -16,59 +20,84 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [role, setRole] = useState<UserRole | null>(null);
+  const [roles, setRoles] = useState<UserRole[]>([]);
   const [loading, setLoading] = useState(true);
+  // Whose roles are loaded or loading, so token refreshes do not reload them
+  const rolesUserId = useRef<string | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      if (session?.user) {
-        fetchUserRole(session.user.id);
+    const fetchUserRoles = async (userId: string) => {
+      const { data, error } = await supabase.from("user_roles").select("role").eq("user_id", userId);
+
+      // Signed out or switched accounts in the meantime
+      if (rolesUserId.current !== userId) return;
+
+      if (error) {
+        toast({
+          title: "Failed to load your roles",
+          description: error.message,
+          variant: "destructive",
+          action: (
+            <ToastAction
+              altText="Try again"
+              onClick={() => {
+                setLoading(true);
+                fetchUserRoles(userId);
+              }}
+            >
+              Try again
+            </ToastAction>
+          ),
+        });
+      } else {
+        setRoles(data.map((row) => row.role));
+      }
+      setLoading(false);
+    };
+
+    const handleSession = (sessionUser: User | null) => {
+      setUser(sessionUser);
+      if (sessionUser?.id === rolesUserId.current) return;
+
+      rolesUserId.current = sessionUser?.id ?? null;
+      setRoles([]);
+      if (sessionUser) {
+        // Role-gated routes wait for the roles rather than redirecting without them
+        setLoading(true);
+        fetchUserRoles(sessionUser.id);
       } else {
         setLoading(false);
       }
+    };
+
+    // Get initial session
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      handleSession(session?.user ?? null);
     });
 
     // Listen for auth changes
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
-      if (session?.user) {
-        fetchUserRole(session.user.id);
-      } else {
-        setRole(null);
-        setLoading(false);
-      }
+      handleSession(session?.user ?? null);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const fetchUserRole = async (userId: string) => {
-    const { data, error } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", userId)
-      .single();
-
-    if (!error && data) {
-      setRole(data.role as UserRole);
-    }
-    setLoading(false);
-  };
+  const hasRole = (role: UserRole) => roles.includes(role);
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    rolesUserId.current = null;
     setUser(null);
-    setRole(null);
+    setRoles([]);
     navigate("/login");
   };
 
   return (
-    <AuthContext.Provider value={{ user, role, loading, signOut }}>
+    <AuthContext.Provider value={{ user, roles, hasRole, loading, signOut }}>
       {children}
     </AuthContext.Provider>
   );
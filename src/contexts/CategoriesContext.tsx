@@ -0,0 +1,58 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Category } from "@/lib/categories";
+
+interface CategoriesContextType {
+  // Every category, including retired ones that older reports still use
+  categories: Category[];
+  // The categories new reports can be filed under
+  activeCategories: Category[];
+  getCategory: (id: string) => Category | undefined;
+  loading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const CategoriesContext = createContext<CategoriesContextType | undefined>(undefined);
+
+export function CategoriesProvider({ children }: { children: React.ReactNode }) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data } = await supabase
+      .from("categories")
+      .select("*")
+      .order("display_order", { ascending: true })
+      .order("label", { ascending: true });
+
+    if (data) {
+      setCategories(data);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const value = useMemo(() => {
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    return {
+      categories,
+      activeCategories: categories.filter((category) => category.is_active),
+      getCategory: (id: string) => byId.get(id),
+      loading,
+      refresh,
+    };
+  }, [categories, loading, refresh]);
+
+  return <CategoriesContext.Provider value={value}>{children}</CategoriesContext.Provider>;
+}
+
+export function useCategories() {
+  const context = useContext(CategoriesContext);
+  if (context === undefined) {
+    throw new Error("useCategories must be used within a CategoriesProvider");
+  }
+  return context;
+}
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Returns a stable function that calls `callback` once calls have stopped
+ * for `delay` ms, e.g. to coalesce a burst of realtime events into one fetch.
+ */
+export function useDebouncedCallback<Args extends unknown[]>(callback: (...args: Args) => void, delay: number) {
+  const callbackRef = useRef(callback);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  }, [callback]);
+
+  // Nothing fires after unmount
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  return useCallback(
+    (...args: Args) => {
+      clearTimeout(timer.current);
+      timer.current = setTimeout(() => callbackRef.current(...args), delay);
+    },
+    [delay]
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect } from "react";
+
+interface PageMetadata {
+  title: string;
+  description?: string;
+  // Absolute URL of the page, used as its canonical share link
+  url?: string;
+}
+
+const SITE_NAME = "Smart Alert";
+
+// Creates the tag if index.html does not already have it
+const setMetaTag = (attribute: "name" | "property", key: string, content: string) => {
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  if (!tag) {
+    tag = document.createElement("meta");
+    tag.setAttribute(attribute, key);
+    document.head.appendChild(tag);
+  }
+  const previous = tag.content;
+  tag.content = content;
+  return () => {
+    tag.content = previous;
+  };
+};
+
+/**
+ * Sets the document title and Open Graph tags while the page is mounted.
+ * Only crawlers that run JavaScript see these; others fall back to the
+ * defaults in index.html, or for shared reports to the report-preview function.
+ */
+export function usePageMetadata({ title, description, url }: PageMetadata) {
+  useEffect(() => {
+    const previousTitle = document.title;
+    const fullTitle = `${title} | ${SITE_NAME}`;
+    document.title = fullTitle;
+
+    const restore = [
+      setMetaTag("property", "og:title", fullTitle),
+      setMetaTag("name", "twitter:title", fullTitle),
+      ...(description
+        ? [
+            setMetaTag("name", "description", description),
+            setMetaTag("property", "og:description", description),
+            setMetaTag("name", "twitter:description", description),
+          ]
+        : []),
+      ...(url ? [setMetaTag("property", "og:url", url)] : []),
+    ];
+
+    return () => {
+      document.title = previousTitle;
+      restore.forEach((undo) => undo());
+    };
+  }, [title, description, url]);
+}
@@ -0,0 +1,75 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { REPORT_MEDIA_BUCKET } from "@/lib/attachments";
+
+const SIGNED_URL_TTL = 10 * 60; // seconds
+// Re-sign a little before expiry so rendered media never goes stale
+const REFRESH_MARGIN = 60 * 1000; // ms
+
+interface SignedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+// Shared across components so the same object is only signed once
+const cache = new Map<string, SignedUrl>();
+
+const isFresh = (entry: SignedUrl | undefined) => !!entry && entry.expiresAt - REFRESH_MARGIN > Date.now();
+
+/**
+ * Resolves storage paths in the private report media bucket to short-lived
+ * signed URLs. Paths the current user may not read are left out.
+ */
+export function useSignedUrls(paths: (string | null | undefined)[]) {
+  const key = useMemo(() => Array.from(new Set(paths.filter(Boolean) as string[])).sort().join("\n"), [paths]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const wanted = key ? key.split("\n") : [];
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const resolve = async () => {
+      const missing = wanted.filter((path) => !isFresh(cache.get(path)));
+
+      if (missing.length > 0) {
+        const { data } = await supabase.storage
+          .from(REPORT_MEDIA_BUCKET)
+          .createSignedUrls(missing, SIGNED_URL_TTL);
+
+        const expiresAt = Date.now() + SIGNED_URL_TTL * 1000;
+        for (const entry of data ?? []) {
+          if (entry.path && entry.signedUrl && !entry.error) {
+            cache.set(entry.path, { url: entry.signedUrl, expiresAt });
+          }
+        }
+      }
+
+      if (cancelled) return;
+
+      const resolved: Record<string, string> = {};
+      let nextExpiry = Infinity;
+      for (const path of wanted) {
+        const entry = cache.get(path);
+        if (entry) {
+          resolved[path] = entry.url;
+          nextExpiry = Math.min(nextExpiry, entry.expiresAt);
+        }
+      }
+      setUrls(resolved);
+
+      if (nextExpiry !== Infinity) {
+        timer = setTimeout(resolve, Math.max(nextExpiry - REFRESH_MARGIN - Date.now(), 1000));
+      }
+    };
+
+    resolve();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  return urls;
+}
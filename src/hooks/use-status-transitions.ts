@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ReportStatus } from "@/lib/reports";
+
+type Transitions = Partial<Record<ReportStatus, ReportStatus[]>>;
+
+// The state machine only changes with a migration, so load it once per session
+let pending: Promise<Transitions> | null = null;
+
+const loadTransitions = () => {
+  pending ??= (async () => {
+    const { data, error } = await supabase.from("report_status_transitions").select("from_status, to_status");
+    if (error) {
+      pending = null;
+      throw error;
+    }
+
+    const transitions: Transitions = {};
+    for (const { from_status, to_status } of data) {
+      (transitions[from_status] ??= []).push(to_status);
+    }
+    return transitions;
+  })();
+  return pending;
+};
+
+/**
+ * Loads the allowed status changes from public.report_status_transitions,
+ * the table the database checks every status change against.
+ */
+export function useStatusTransitions() {
+  const [transitions, setTransitions] = useState<Transitions>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTransitions()
+      .then((loaded) => {
+        if (!cancelled) setTransitions(loaded);
+      })
+      .catch((error: Error) => {
+        // No status changes are offered until a later mount loads them
+        if (cancelled) return;
+        toast({
+          title: "Failed to load status changes",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  return useCallback((status: ReportStatus) => transitions[status] ?? [], [transitions]);
+}
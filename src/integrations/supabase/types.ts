@@ -14,15 +14,335 @@ export type Database = {
   }
   public: {
     Tables: {
+      categories: {
+        Row: {
+          color: string
+          created_at: string
+          display_order: number
+          fields: Json
+          icon: string
+          id: string
+          is_active: boolean
+          label: string
+          priority_weight: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          display_order?: number
+          fields?: Json
+          icon?: string
+          id: string
+          is_active?: boolean
+          label: string
+          priority_weight?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          display_order?: number
+          fields?: Json
+          icon?: string
+          id?: string
+          is_active?: boolean
+          label?: string
+          priority_weight?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      report_attachments: {
+        Row: {
+          created_at: string
+          id: string
+          media_type: Database["public"]["Enums"]["attachment_media_type"]
+          mime_type: string
+          position: number
+          report_id: string
+          size_bytes: number
+          storage_path: string
+          thumbnail_path: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          media_type: Database["public"]["Enums"]["attachment_media_type"]
+          mime_type: string
+          position?: number
+          report_id: string
+          size_bytes: number
+          storage_path: string
+          thumbnail_path?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          media_type?: Database["public"]["Enums"]["attachment_media_type"]
+          mime_type?: string
+          position?: number
+          report_id?: string
+          size_bytes?: number
+          storage_path?: string
+          thumbnail_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_attachments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "public_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_attachments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_comments: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          from_moderator: boolean
+          id: string
+          is_public: boolean
+          parent_id: string | null
+          report_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          from_moderator?: boolean
+          id?: string
+          is_public?: boolean
+          parent_id?: string | null
+          report_id: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          from_moderator?: boolean
+          id?: string
+          is_public?: boolean
+          parent_id?: string | null
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "report_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "public_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_confirmations: {
+        Row: {
+          created_at: string
+          report_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          report_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          report_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_confirmations_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "public_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_confirmations_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_daily_stats: {
+        Row: {
+          category: string
+          critical_count: number
+          day: string
+          report_count: number
+          status: Database["public"]["Enums"]["report_status"]
+        }
+        Insert: {
+          category: string
+          critical_count?: number
+          day: string
+          report_count?: number
+          status: Database["public"]["Enums"]["report_status"]
+        }
+        Update: {
+          category?: string
+          critical_count?: number
+          day?: string
+          report_count?: number
+          status?: Database["public"]["Enums"]["report_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_daily_stats_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["report_status"] | null
+          id: string
+          note: string | null
+          report_id: string
+          to_status: Database["public"]["Enums"]["report_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["report_status"] | null
+          id?: string
+          note?: string | null
+          report_id: string
+          to_status: Database["public"]["Enums"]["report_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["report_status"] | null
+          id?: string
+          note?: string | null
+          report_id?: string
+          to_status?: Database["public"]["Enums"]["report_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_events_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "public_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_events_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_notes: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          id: string
+          report_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          report_id: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_notes_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "public_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_notes_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["report_status"]
+          to_status: Database["public"]["Enums"]["report_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["report_status"]
+          to_status: Database["public"]["Enums"]["report_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["report_status"]
+          to_status?: Database["public"]["Enums"]["report_status"]
+        }
+        Relationships: []
+      }
       reports: {
         Row: {
-          category: Database["public"]["Enums"]["report_category"]
+          category: string
+          confirmation_count: number
           created_at: string
           description: string
+          details: Json
           id: string
           image_url: string | null
+          latitude: number | null
           location: string | null
+          longitude: number | null
+          priority_override: number | null
+          priority_score: number
+          rejection_details: string | null
+          rejection_reason: Database["public"]["Enums"]["rejection_reason"] | null
+          search_vector: unknown | null
+          severity: Database["public"]["Enums"]["report_severity"]
           status: Database["public"]["Enums"]["report_status"]
+          status_note: string | null
           title: string
           updated_at: string
           user_id: string
@@ -30,13 +350,24 @@ export type Database = {
           verified_by: string | null
         }
         Insert: {
-          category: Database["public"]["Enums"]["report_category"]
+          category: string
+          confirmation_count?: number
           created_at?: string
           description: string
+          details?: Json
           id?: string
           image_url?: string | null
+          latitude?: number | null
           location?: string | null
+          longitude?: number | null
+          priority_override?: number | null
+          priority_score?: number
+          rejection_details?: string | null
+          rejection_reason?: Database["public"]["Enums"]["rejection_reason"] | null
+          search_vector?: never
+          severity?: Database["public"]["Enums"]["report_severity"]
           status?: Database["public"]["Enums"]["report_status"]
+          status_note?: string | null
           title: string
           updated_at?: string
           user_id: string
@@ -44,19 +375,65 @@ export type Database = {
           verified_by?: string | null
         }
         Update: {
-          category?: Database["public"]["Enums"]["report_category"]
+          category?: string
+          confirmation_count?: number
           created_at?: string
           description?: string
+          details?: Json
           id?: string
           image_url?: string | null
+          latitude?: number | null
           location?: string | null
+          longitude?: number | null
+          priority_override?: number | null
+          priority_score?: number
+          rejection_details?: string | null
+          rejection_reason?: Database["public"]["Enums"]["rejection_reason"] | null
+          search_vector?: never
+          severity?: Database["public"]["Enums"]["report_severity"]
           status?: Database["public"]["Enums"]["report_status"]
+          status_note?: string | null
           title?: string
           updated_at?: string
           user_id?: string
           verified_at?: string | null
           verified_by?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "reports_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_role_changes: {
+        Row: {
+          action: string
+          changed_by: string | null
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
         Relationships: []
       }
       user_roles: {
@@ -82,9 +459,133 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      public_reports: {
+        Row: {
+          category: string | null
+          confirmation_count: number | null
+          created_at: string | null
+          description: string | null
+          details: Json | null
+          id: string | null
+          latitude: number | null
+          location: string | null
+          longitude: number | null
+          severity: Database["public"]["Enums"]["report_severity"] | null
+          status: Database["public"]["Enums"]["report_status"] | null
+          title: string | null
+          updated_at: string | null
+          verified_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      calculate_priority_score: {
+        Args: {
+          _category: string
+          _confirmation_count: number
+          _created_at: string
+          _severity: Database["public"]["Enums"]["report_severity"]
+        }
+        Returns: number
+      }
+      can_confirm_report: {
+        Args: {
+          _report_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      distance_meters: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _lng1: number
+          _lng2: number
+        }
+        Returns: number
+      }
+      find_report_duplicates: {
+        Args: {
+          _report_ids: string[]
+        }
+        Returns: {
+          created_at: string
+          distance_meters: number
+          id: string
+          location: string
+          report_id: string
+          title: string
+        }[]
+      }
+      find_similar_reports: {
+        Args: {
+          _around?: string
+          _category: string
+          _exclude_id?: string
+          _latitude?: number
+          _longitude?: number
+          _title: string
+        }
+        Returns: {
+          created_at: string
+          distance_meters: number
+          id: string
+          is_own: boolean
+          location: string
+          status: Database["public"]["Enums"]["report_status"]
+          title: string
+          title_similarity: number
+        }[]
+      }
+      get_moderation_trends: {
+        Args: {
+          _from: string
+          _time_zone?: string
+          _to: string
+        }
+        Returns: {
+          day: string
+          median_hours: number
+          reviewed: number
+          verified: number
+        }[]
+      }
+      get_report_stats: {
+        Args: {
+          _by_category?: boolean
+          _by_day?: boolean
+          _from?: string
+          _to?: string
+        }
+        Returns: {
+          category: string
+          critical_count: number
+          day: string
+          report_count: number
+          status: Database["public"]["Enums"]["report_status"]
+        }[]
+      }
+      get_report_trends: {
+        Args: {
+          _from: string
+          _time_zone?: string
+          _to: string
+        }
+        Returns: {
+          category: string
+          day: string
+          submitted: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -92,11 +593,98 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_critical_priority: {
+        Args: {
+          _score: number
+        }
+        Returns: boolean
+      }
+      is_public_report_media: {
+        Args: {
+          _name: string
+        }
+        Returns: boolean
+      }
+      is_public_status: {
+        Args: {
+          _status: Database["public"]["Enums"]["report_status"]
+        }
+        Returns: boolean
+      }
+      list_orphaned_report_media: {
+        Args: {
+          _older_than?: unknown
+        }
+        Returns: string[]
+      }
+      list_users: {
+        Args: {
+          _limit?: number
+          _search?: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          id: string
+          last_sign_in_at: string
+          report_count: number
+          roles: Database["public"]["Enums"]["app_role"][]
+        }[]
+      }
+      refresh_report_priority_scores: {
+        Args: {
+          _category?: string
+        }
+        Returns: number
+      }
+      report_exists: {
+        Args: {
+          _report_id: string
+        }
+        Returns: boolean
+      }
+      set_user_role: {
+        Args: {
+          _granted: boolean
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      submit_report: {
+        Args: {
+          _attachments?: Json
+          _category: string
+          _description: string
+          _details?: Json
+          _id: string
+          _latitude?: number
+          _location?: string
+          _longitude?: number
+          _severity?: Database["public"]["Enums"]["report_severity"]
+          _title: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "USER" | "MODERATOR"
-      report_category: "power_outage" | "water_cut" | "road_damage" | "other"
-      report_status: "pending" | "verified" | "rejected"
+      app_role: "USER" | "MODERATOR" | "ADMIN"
+      attachment_media_type: "image" | "video"
+      rejection_reason:
+        | "duplicate"
+        | "insufficient_info"
+        | "out_of_jurisdiction"
+        | "not_an_issue"
+        | "other"
+      report_severity: "low" | "medium" | "high" | "critical"
+      report_status:
+        | "pending"
+        | "verified"
+        | "rejected"
+        | "withdrawn"
+        | "in_progress"
+        | "resolved"
+        | "closed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -224,9 +812,25 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["USER", "MODERATOR"],
-      report_category: ["power_outage", "water_cut", "road_damage", "other"],
-      report_status: ["pending", "verified", "rejected"],
+      app_role: ["USER", "MODERATOR", "ADMIN"],
+      attachment_media_type: ["image", "video"],
+      rejection_reason: [
+        "duplicate",
+        "insufficient_info",
+        "out_of_jurisdiction",
+        "not_an_issue",
+        "other",
+      ],
+      report_severity: ["low", "medium", "high", "critical"],
+      report_status: [
+        "pending",
+        "verified",
+        "rejected",
+        "withdrawn",
+        "in_progress",
+        "resolved",
+        "closed",
+      ],
     },
   },
 } as const
@@ -0,0 +1,114 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { compressImage, createImageThumbnail, createVideoThumbnail } from "@/lib/media";
+
+export type AttachmentMediaType = Database["public"]["Enums"]["attachment_media_type"];
+
+export const REPORT_MEDIA_BUCKET = "report-images";
+
+export const MAX_ATTACHMENTS = 6;
+
+export const ATTACHMENT_SIZE_LIMITS: Record<AttachmentMediaType, number> = {
+  image: 5 * 1024 * 1024, // 5MB
+  video: 50 * 1024 * 1024, // 50MB
+};
+
+// Photos straight off a phone camera are accepted up to this size, since
+// they are compressed well below the image limit before upload
+export const MAX_SOURCE_IMAGE_SIZE = 30 * 1024 * 1024; // 30MB
+
+export interface ReportAttachment {
+  id: string;
+  storage_path: string;
+  thumbnail_path: string | null;
+  media_type: AttachmentMediaType;
+  position: number;
+}
+
+// A selected file after client-side processing, ready to upload
+export interface PreparedAttachment {
+  file: File;
+  mediaType: AttachmentMediaType;
+  thumbnail: Blob | null;
+}
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+
+export const getMediaType = (file: File): AttachmentMediaType | null => {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type.startsWith("video/")) return "video";
+  return null;
+};
+
+// Returns a user-facing error, or null when the file can be attached
+export const validateAttachment = (file: File) => {
+  const mediaType = getMediaType(file);
+  if (!mediaType) {
+    return `${file.name} is not an image or video`;
+  }
+  if (file.size > ATTACHMENT_SIZE_LIMITS[mediaType]) {
+    return `${file.name} is larger than ${formatFileSize(ATTACHMENT_SIZE_LIMITS[mediaType])}`;
+  }
+  return null;
+};
+
+/**
+ * Compresses images (which also strips their EXIF metadata) and renders a
+ * thumbnail. Animated GIFs are kept as-is, since re-encoding would flatten
+ * them. Thumbnail failures are not fatal: views fall back to the full file.
+ */
+export async function prepareAttachment(file: File): Promise<PreparedAttachment> {
+  const mediaType = getMediaType(file);
+  if (!mediaType) throw new Error(`${file.name} is not an image or video`);
+
+  if (mediaType === "video") {
+    const thumbnail = await createVideoThumbnail(file).catch(() => null);
+    return { file, mediaType, thumbnail };
+  }
+
+  if (file.size > MAX_SOURCE_IMAGE_SIZE) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_SOURCE_IMAGE_SIZE)}`);
+  }
+
+  const processed = file.type === "image/gif" ? file : await compressImage(file);
+  const thumbnail = await createImageThumbnail(processed).catch(() => null);
+  return { file: processed, mediaType, thumbnail };
+}
+
+// Videos without a generated thumbnail have nothing to preview
+export const getPreviewPath = (attachment: ReportAttachment) =>
+  attachment.thumbnail_path ?? (attachment.media_type === "image" ? attachment.storage_path : null);
+
+/**
+ * Uploads a file straight to the Storage REST API. supabase-js does not
+ * report upload progress, so this goes through XMLHttpRequest instead.
+ */
+export async function uploadWithProgress(path: string, file: File, onProgress: (percent: number) => void) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${REPORT_MEDIA_BUCKET}/${path}`);
+    xhr.setRequestHeader("apikey", import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader("Authorization", `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`);
+    xhr.setRequestHeader("Content-Type", file.type || "application/octet-stream");
+    xhr.setRequestHeader("x-upsert", "false");
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+      } else {
+        reject(new Error(`Upload of ${file.name} failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Upload of ${file.name} failed`));
+    xhr.send(file);
+  });
+}
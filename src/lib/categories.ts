@@ -0,0 +1,129 @@
+import {
+  AlertTriangle,
+  Bus,
+  CircleHelp,
+  Construction,
+  Droplets,
+  Flame,
+  Lightbulb,
+  LucideIcon,
+  ShieldAlert,
+  Signal,
+  Trash2,
+  TreePine,
+  Waves,
+  Wind,
+  Zap,
+} from "lucide-react";
+import { Database, Json } from "@/integrations/supabase/types";
+import { z } from "zod";
+
+export type Category = Database["public"]["Tables"]["categories"]["Row"];
+
+// Used for reports whose category has not loaded or no longer exists
+export const FALLBACK_CATEGORY_COLOR = "#8b5cf6";
+
+// Icons moderators can pick for a category, keyed by their lucide name
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  zap: Zap,
+  droplets: Droplets,
+  construction: Construction,
+  flame: Flame,
+  lightbulb: Lightbulb,
+  "trash-2": Trash2,
+  "tree-pine": TreePine,
+  waves: Waves,
+  wind: Wind,
+  bus: Bus,
+  signal: Signal,
+  "shield-alert": ShieldAlert,
+  "alert-triangle": AlertTriangle,
+  "circle-help": CircleHelp,
+};
+
+export const getCategoryIcon = (name: string | undefined) => (name && CATEGORY_ICONS[name]) || CircleHelp;
+
+// Turns a label like "Gas Leak" into an id like "gas_leak"
+export const slugifyCategory = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "");
+
+export const FIELD_TYPE_LABELS = {
+  text: "Text",
+  number: "Number",
+  boolean: "Yes / No",
+  select: "Choice",
+} as const;
+
+export type FieldType = keyof typeof FIELD_TYPE_LABELS;
+
+// Shape of the entries in categories.fields, see check_report_details
+export const categoryFieldSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Field keys must start with a letter and use only a-z, 0-9 and _"),
+  label: z.string().trim().min(1, "Every field needs a label").max(200, "Field labels must be less than 200 characters"),
+  type: z.enum(Object.keys(FIELD_TYPE_LABELS) as [FieldType, ...FieldType[]]),
+  required: z.boolean().default(false),
+  options: z.array(z.string().trim().min(1)).optional(),
+});
+
+export type CategoryField = z.infer<typeof categoryFieldSchema>;
+
+export type DetailValue = string | number | boolean;
+export type ReportDetails = Record<string, DetailValue>;
+
+// Fields are stored as JSON, so entries that do not parse are skipped
+export function getCategoryFields(category: Category | undefined): CategoryField[] {
+  if (!category || !Array.isArray(category.fields)) return [];
+  return category.fields.flatMap((field) => {
+    const result = categoryFieldSchema.safeParse(field);
+    return result.success ? [result.data] : [];
+  });
+}
+
+export const toReportDetails = (details: Json): ReportDetails =>
+  details && typeof details === "object" && !Array.isArray(details) ? (details as ReportDetails) : {};
+
+/**
+ * Builds the schema for a category's details at runtime. Blank answers are
+ * dropped before validation, so they count as missing.
+ */
+export function buildDetailsSchema(fields: CategoryField[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const field of fields) {
+    const required_error = `${field.label} is required`;
+    let schema: z.ZodTypeAny;
+
+    switch (field.type) {
+      case "number":
+        schema = z.number({ required_error, invalid_type_error: `${field.label} must be a number` });
+        break;
+      case "boolean":
+        schema = z.boolean({ required_error });
+        break;
+      case "select":
+        schema = field.options?.length
+          ? z.enum(field.options as [string, ...string[]], {
+              required_error,
+              invalid_type_error: `Select an option for ${field.label}`,
+            })
+          : z.string({ required_error });
+        break;
+      default:
+        schema = z.string({ required_error }).trim().max(500, `${field.label} must be less than 500 characters`);
+    }
+
+    shape[field.key] = field.required ? schema : schema.optional();
+  }
+
+  return z.preprocess(
+    (details) =>
+      Object.fromEntries(
+        Object.entries(details as ReportDetails).filter(([, value]) => value !== "" && value !== undefined)
+      ),
+    z.object(shape)
+  );
+}
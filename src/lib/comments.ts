@@ -0,0 +1,33 @@
+import { Database } from "@/integrations/supabase/types";
+import { z } from "zod";
+
+export type ReportComment = Database["public"]["Tables"]["report_comments"]["Row"];
+
+export interface CommentThread extends ReportComment {
+  replies: CommentThread[];
+}
+
+// Replies nest visually up to this depth, then continue flat
+export const MAX_COMMENT_DEPTH = 3;
+
+export const commentSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(2000, "Comment must be less than 2000 characters"),
+});
+
+// Turns the flat, oldest-first list into threads. Replies whose parent the
+// reader cannot see are shown as top-level comments.
+export function buildCommentThreads(comments: ReportComment[]): CommentThread[] {
+  const threads = new Map(comments.map((comment) => [comment.id, { ...comment, replies: [] as CommentThread[] }]));
+  const roots: CommentThread[] = [];
+
+  threads.forEach((thread) => {
+    const parent = thread.parent_id ? threads.get(thread.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  });
+
+  return roots;
+}
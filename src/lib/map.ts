@@ -0,0 +1,70 @@
+import L from "leaflet";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+import "leaflet/dist/leaflet.css";
+
+// Leaflet resolves its default marker images relative to the stylesheet,
+// which breaks once Vite fingerprints the assets.
+L.Icon.Default.mergeOptions({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+});
+
+export const TILE_LAYER_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const TILE_LAYER_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const DEFAULT_CENTER: [number, number] = [20, 0];
+export const DEFAULT_ZOOM = 2;
+export const PIN_ZOOM = 16;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export function formatCoordinates({ latitude, longitude }: Coordinates) {
+  return `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+}
+
+export function formatDistance(meters: number) {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+export interface Cluster<T> {
+  latitude: number;
+  longitude: number;
+  items: T[];
+}
+
+/**
+ * Groups points that fall into the same screen-space grid cell at the given
+ * zoom level. Each cluster is positioned at the average of its members.
+ */
+export function clusterByGrid<T extends Coordinates>(
+  points: T[],
+  map: L.Map,
+  zoom: number,
+  cellSize = 60
+): Cluster<T>[] {
+  const cells = new Map<string, T[]>();
+
+  for (const point of points) {
+    const projected = map.project([point.latitude, point.longitude], zoom);
+    const key = `${Math.floor(projected.x / cellSize)}:${Math.floor(projected.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  }
+
+  return Array.from(cells.values()).map((items) => ({
+    latitude: items.reduce((sum, item) => sum + item.latitude, 0) / items.length,
+    longitude: items.reduce((sum, item) => sum + item.longitude, 0) / items.length,
+    items,
+  }));
+}
@@ -0,0 +1,96 @@
+import exifr from "exifr";
+import { Coordinates } from "@/lib/map";
+
+const MAX_IMAGE_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 320;
+const IMAGE_QUALITY = 0.85;
+const THUMBNAIL_QUALITY = 0.7;
+
+const loadBitmap = (file: Blob) => createImageBitmap(file, { imageOrientation: "from-image" });
+
+// Scales a source to fit within maxDimension and encodes it as JPEG
+const renderJpeg = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  maxDimension: number,
+  quality: number
+) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      "image/jpeg",
+      quality
+    )
+  );
+};
+
+/**
+ * Re-encodes a photo as a resized JPEG. Drawing through a canvas discards
+ * every EXIF tag, including the GPS position of where it was taken.
+ */
+export async function compressImage(file: File) {
+  const bitmap = await loadBitmap(file);
+  try {
+    const blob = await renderJpeg(bitmap, bitmap.width, bitmap.height, MAX_IMAGE_DIMENSION, IMAGE_QUALITY);
+    const name = file.name.replace(/\.[^.]+$/, "") + ".jpg";
+    return new File([blob], name, { type: "image/jpeg", lastModified: file.lastModified });
+  } finally {
+    bitmap.close();
+  }
+}
+
+export async function createImageThumbnail(file: Blob) {
+  const bitmap = await loadBitmap(file);
+  try {
+    return await renderJpeg(bitmap, bitmap.width, bitmap.height, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Captures a frame shortly after the start of the clip
+export function createVideoThumbnail(file: File) {
+  return new Promise<Blob>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.muted = true;
+    video.playsInline = true;
+
+    const cleanup = () => URL.revokeObjectURL(url);
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(0.5, video.duration / 2);
+    };
+    video.onseeked = () => {
+      renderJpeg(video, video.videoWidth, video.videoHeight, THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY)
+        .then(resolve, reject)
+        .finally(cleanup);
+    };
+    video.onerror = () => {
+      cleanup();
+      reject(new Error(`Could not read ${file.name}`));
+    };
+    video.src = url;
+  });
+}
+
+// Reads the GPS position embedded in a photo, if any
+export async function readGpsCoordinates(file: File): Promise<Coordinates | null> {
+  try {
+    const gps = await exifr.gps(file);
+    if (!gps || !Number.isFinite(gps.latitude) || !Number.isFinite(gps.longitude)) return null;
+    return { latitude: gps.latitude, longitude: gps.longitude };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,120 @@
+import { Constants, Database } from "@/integrations/supabase/types";
+import { z } from "zod";
+
+export type ReportStatus = Database["public"]["Enums"]["report_status"];
+export type RejectionReason = Database["public"]["Enums"]["rejection_reason"];
+export type ReportSeverity = Database["public"]["Enums"]["report_severity"];
+
+export const STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: "Pending",
+  verified: "Verified",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  in_progress: "In Progress",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  duplicate: "Duplicate of an existing report",
+  insufficient_info: "Insufficient information",
+  out_of_jurisdiction: "Out of jurisdiction",
+  not_an_issue: "Not an issue",
+  other: "Other",
+};
+
+export const SEVERITY_LABELS: Record<ReportSeverity, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  critical: "Critical",
+};
+
+// Shown to citizens next to each severity when they submit a report
+export const SEVERITY_DESCRIPTIONS: Record<ReportSeverity, string> = {
+  low: "A nuisance, but nothing urgent",
+  medium: "Should be fixed soon",
+  high: "Disrupts daily life",
+  critical: "A danger to people or property",
+};
+
+// Priority scores run from 0 to 100, see calculate_priority_score. The
+// dashboard totals use public.is_critical_priority, which has the same cut-off.
+export const CRITICAL_PRIORITY_SCORE = 70;
+
+export const isCriticalPriority = (score: number) => score >= CRITICAL_PRIORITY_SCORE;
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case "verified":
+      return "bg-success text-success-foreground";
+    case "pending":
+      return "bg-accent text-accent-foreground";
+    case "rejected":
+      return "bg-destructive text-destructive-foreground";
+    case "withdrawn":
+    case "closed":
+      return "bg-muted text-muted-foreground";
+    case "in_progress":
+      return "bg-primary text-primary-foreground";
+    case "resolved":
+      return "bg-secondary text-secondary-foreground";
+    default:
+      return "";
+  }
+};
+
+// Hex colors for map markers, which cannot use Tailwind classes
+export const STATUS_MARKER_COLORS: Record<ReportStatus, string> = {
+  pending: "#f59e0b",
+  verified: "#16a34a",
+  rejected: "#dc2626",
+  withdrawn: "#6b7280",
+  in_progress: "#2563eb",
+  resolved: "#0d9488",
+  closed: "#374151",
+};
+
+// Statuses anyone can see, matching public.is_public_status
+export const PUBLIC_STATUSES: ReportStatus[] = ["verified", "in_progress", "resolved", "closed"];
+
+export const isPublicStatus = (status: ReportStatus) => PUBLIC_STATUSES.includes(status);
+
+export const reportSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
+  // Checked against the active categories by the database
+  category: z.string({ required_error: "Category is required" }).min(1, "Category is required"),
+  description: z.string().trim().min(1, "Description is required").max(2000, "Description must be less than 2000 characters"),
+  location: z.string().trim().max(500, "Location must be less than 500 characters").optional(),
+  latitude: z.number().min(-90, "Invalid latitude").max(90, "Invalid latitude").optional(),
+  longitude: z.number().min(-180, "Invalid longitude").max(180, "Invalid longitude").optional(),
+  severity: z.enum(Constants.public.Enums.report_severity).default("medium"),
+  // Answers to the category's extra fields, checked by buildDetailsSchema
+  details: z.record(z.union([z.string(), z.number(), z.boolean()])).default({}),
+});
+
+export type ReportInput = z.infer<typeof reportSchema>;
+
+// Page of a report for signed-in users, subject to RLS
+export const getReportPath = (id: string) => `/reports/${id}`;
+
+const SHARE_DESCRIPTION_LENGTH = 160;
+
+// Trims a description for link previews, as the report-preview function does
+export const toShareDescription = (text: string) =>
+  text.length > SHARE_DESCRIPTION_LENGTH ? `${text.slice(0, SHARE_DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+
+// Shareable page of a report in the public portal
+export const getPublicReportPath = (id: string) => `/public/reports/${id}`;
+
+// Link to share a public report by. Link previews do not run JavaScript, so
+// when the functions are served from a custom domain (VITE_SHARE_BASE_URL) it
+// points at the report-preview function, which serves the report's Open Graph
+// tags and sends people on to the portal. On the default domain the function
+// cannot serve HTML, so the link is the portal page itself.
+export const getPublicReportShareUrl = (id: string) => {
+  const shareBaseUrl = import.meta.env.VITE_SHARE_BASE_URL?.replace(/\/$/, "");
+  return shareBaseUrl
+    ? `${shareBaseUrl}/functions/v1/report-preview?id=${id}`
+    : `${window.location.origin}${getPublicReportPath(id)}`;
+};
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Navigation } from "@/components/Navigation";
+import { CategoryDialog, CategoryInput } from "@/components/CategoryDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { Category, getCategoryIcon } from "@/lib/categories";
+import { ArrowDown, ArrowUp, Pencil, Plus } from "lucide-react";
+
+// Gaps between positions leave room to insert categories by hand
+const ORDER_STEP = 10;
+
+export default function AdminCategories() {
+  const { categories, loading, refresh } = useCategories();
+  const [editing, setEditing] = useState<Category | undefined>();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const openDialog = (category?: Category) => {
+    setEditing(category);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (input: CategoryInput) => {
+    const { error } = editing
+      ? await supabase
+          .from("categories")
+          .update({
+            label: input.label,
+            icon: input.icon,
+            color: input.color,
+            is_active: input.is_active,
+            priority_weight: input.priority_weight,
+            fields: input.fields,
+          })
+          .eq("id", editing.id)
+      : await supabase.from("categories").insert({
+          id: input.id,
+          label: input.label,
+          icon: input.icon,
+          color: input.color,
+          is_active: input.is_active,
+          priority_weight: input.priority_weight,
+          fields: input.fields,
+          display_order: (categories.at(-1)?.display_order ?? 0) + ORDER_STEP,
+        });
+
+    if (error) {
+      toast({
+        title: "Failed to save category",
+        description: error.code === "23505" ? "A category with this key already exists." : error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: "Category saved",
+      description: `${input.label} has been saved.`,
+    });
+    await refresh();
+    return true;
+  };
+
+  const setActive = async (category: Category, isActive: boolean) => {
+    const { error } = await supabase.from("categories").update({ is_active: isActive }).eq("id", category.id);
+
+    if (error) {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+    await refresh();
+  };
+
+  // Swaps a category with its neighbour and renumbers the whole list
+  const move = async (index: number, offset: -1 | 1) => {
+    const reordered = [...categories];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+
+    const results = await Promise.all(
+      reordered.map((category, position) =>
+        category.display_order === (position + 1) * ORDER_STEP
+          ? null
+          : supabase
+              .from("categories")
+              .update({ display_order: (position + 1) * ORDER_STEP })
+              .eq("id", category.id)
+      )
+    );
+
+    const failed = results.find((result) => result?.error);
+    if (failed?.error) {
+      toast({
+        title: "Failed to reorder categories",
+        description: failed.error.message,
+        variant: "destructive",
+      });
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto p-6">
+        <div className="mb-6 flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Categories</h1>
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add category
+          </Button>
+        </div>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base font-medium text-muted-foreground">
+              Retired categories stay on existing reports but can no longer be picked for new ones.
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p>Loading categories...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-24">Order</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Priority weight</TableHead>
+                    <TableHead>Available</TableHead>
+                    <TableHead className="w-16" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.map((category, index) => {
+                    const Icon = getCategoryIcon(category.icon);
+                    return (
+                      <TableRow key={category.id}>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8"
+                              disabled={index === 0}
+                              onClick={() => move(index, -1)}
+                              aria-label={`Move ${category.label} up`}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8"
+                              disabled={index === categories.length - 1}
+                              onClick={() => move(index, 1)}
+                              aria-label={`Move ${category.label} down`}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <span className="flex items-center gap-2 font-medium">
+                            <span
+                              className="flex h-7 w-7 items-center justify-center rounded-full"
+                              style={{ backgroundColor: category.color }}
+                            >
+                              <Icon className="h-4 w-4 text-white" />
+                            </span>
+                            {category.label}
+                            {!category.is_active && <Badge variant="secondary">Retired</Badge>}
+                          </span>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm text-muted-foreground">{category.id}</TableCell>
+                        <TableCell>&times;{category.priority_weight}</TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={category.is_active}
+                            onCheckedChange={(checked) => setActive(category, checked)}
+                            aria-label={`${category.label} available for new reports`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => openDialog(category)}
+                            aria-label={`Edit ${category.label}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+        <CategoryDialog open={dialogOpen} onOpenChange={setDialogOpen} category={editing} onSave={handleSave} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { Navigation } from "@/components/Navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Search } from "lucide-react";
+
+type UserSummary = Database["public"]["Functions"]["list_users"]["Returns"][number];
+
+// Matches the cap in public.list_users
+const USER_LIMIT = 50;
+
+export default function AdminUsers() {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchUsers = useCallback(async () => {
+    const { data, error } = await supabase.rpc("list_users", { _search: query || undefined, _limit: USER_LIMIT });
+
+    if (error) {
+      toast({
+        title: "Failed to load users",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setUsers(data);
+    }
+    setLoading(false);
+  }, [query, toast]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(search.trim());
+  };
+
+  // Granted and revoked server-side, which also records the change
+  const setModerator = async (target: UserSummary, granted: boolean) => {
+    setSavingId(target.id);
+    const { error } = await supabase.rpc("set_user_role", {
+      _user_id: target.id,
+      _role: "MODERATOR",
+      _granted: granted,
+    });
+    setSavingId(null);
+
+    if (error) {
+      toast({
+        title: "Failed to update role",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: granted ? "Moderator added" : "Moderator removed",
+      description: `${target.email} ${granted ? "can now" : "can no longer"} moderate reports.`,
+    });
+    await fetchUsers();
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto p-6">
+        <h1 className="mb-6 text-3xl font-bold">Users</h1>
+        <Card>
+          <CardHeader className="space-y-4">
+            <CardTitle className="text-base font-medium text-muted-foreground">
+              Moderators review reports and manage categories. Every role change is recorded.
+            </CardTitle>
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by email"
+                aria-label="Search users"
+              />
+              <Button type="submit" variant="secondary">
+                <Search className="mr-2 h-4 w-4" />
+                Search
+              </Button>
+            </form>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p>Loading users...</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Roles</TableHead>
+                      <TableHead>Reports</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead>Last sign in</TableHead>
+                      <TableHead>Moderator</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.map((account) => (
+                      <TableRow key={account.id}>
+                        <TableCell className="font-medium">
+                          {account.email}
+                          {account.id === user?.id && <span className="ml-2 text-muted-foreground">(you)</span>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            {account.roles.map((role) => (
+                              <Badge key={role} variant={role === "USER" ? "outline" : "secondary"}>
+                                {role}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>{account.report_count}</TableCell>
+                        <TableCell>{new Date(account.created_at).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {account.last_sign_in_at ? new Date(account.last_sign_in_at).toLocaleString() : "Never"}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={account.roles.includes("MODERATOR")}
+                            onCheckedChange={(checked) => setModerator(account, checked)}
+                            disabled={savingId === account.id}
+                            aria-label={`${account.email} is a moderator`}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {users.length === 0 && <p className="py-6 text-center text-muted-foreground">No users found.</p>}
+                {users.length === USER_LIMIT && (
+                  <p className="pt-4 text-sm text-muted-foreground">
+                    Showing the first {USER_LIMIT} users. Narrow the search to find others.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
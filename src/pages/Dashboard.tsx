@@ -1,21 +1,78 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Navigation } from "@/components/Navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { AlertCircle, CheckCircle, Clock, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCheck, CheckCircle, Clock, FileText, Film, Flame, ImageOff, Wrench } from "lucide-react";
+import { ReportAttachment, getPreviewPath } from "@/lib/attachments";
+import { useSignedUrls } from "@/hooks/use-signed-urls";
+import { useDebouncedCallback } from "@/hooks/use-debounced-callback";
+import { ConfirmReportButton } from "@/components/ConfirmReportButton";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { PriorityBadge } from "@/components/PriorityBadge";
+import { ReportTrends } from "@/components/ReportTrends";
+import { cn } from "@/lib/utils";
+import {
+  ReportStatus,
+  STATUS_LABELS,
+  getReportPath,
+  getStatusColor,
+  isCriticalPriority,
+} from "@/lib/reports";
 
 interface Stats {
   total: number;
   verified: number;
   pending: number;
+  inProgress: number;
+  resolved: number;
   rejected: number;
+  critical: number;
 }
 
+interface RecentReport {
+  id: string;
+  title: string;
+  category: string;
+  status: ReportStatus;
+  user_id: string;
+  confirmation_count: number;
+  priority_score: number;
+  created_at: string;
+  report_attachments: ReportAttachment[];
+}
+
+const RECENT_REPORTS_LIMIT = 6;
+// Coalesces bursts of report changes into a single refresh
+const REFRESH_DELAY = 1000; // ms
+
+// Only reports still waiting for a fix count as critical
+const OPEN_STATUSES: ReportStatus[] = ["pending", "verified", "in_progress"];
+
 export default function Dashboard() {
-  const [stats, setStats] = useState<Stats>({ total: 0, verified: 0, pending: 0, rejected: 0 });
+  const [stats, setStats] = useState<Stats>({
+    total: 0,
+    verified: 0,
+    pending: 0,
+    inProgress: 0,
+    resolved: 0,
+    rejected: 0,
+    critical: 0,
+  });
+  const [recentReports, setRecentReports] = useState<RecentReport[]>([]);
+  const coverUrls = useSignedUrls(
+    recentReports.map((report) => (report.report_attachments[0] ? getPreviewPath(report.report_attachments[0]) : null))
+  );
+
+  const refresh = useDebouncedCallback(() => {
+    fetchStats();
+    fetchRecentReports();
+  }, REFRESH_DELAY);
 
   useEffect(() => {
     fetchStats();
+    fetchRecentReports();
 
     const channel = supabase
       .channel("reports-changes")
@@ -26,28 +83,46 @@ export default function Dashboard() {
           schema: "public",
           table: "reports",
         },
-        () => {
-          fetchStats();
-        }
+        () => refresh()
       )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [refresh]);
 
+  // Totals come from public.report_daily_stats, so no report rows are downloaded
   const fetchStats = async () => {
-    const { data } = await supabase.from("reports").select("status");
+    const { data } = await supabase.rpc("get_report_stats", { _by_day: false, _by_category: false });
+
+    if (data) {
+      const countOf = (status: ReportStatus) =>
+        data.filter((row) => row.status === status).reduce((sum, row) => sum + row.report_count, 0);
+      setStats({
+        total: data.reduce((sum, row) => sum + row.report_count, 0),
+        verified: countOf("verified"),
+        pending: countOf("pending"),
+        inProgress: countOf("in_progress"),
+        resolved: countOf("resolved"),
+        rejected: countOf("rejected"),
+        critical: data
+          .filter((row) => OPEN_STATUSES.includes(row.status))
+          .reduce((sum, row) => sum + row.critical_count, 0),
+      });
+    }
+  };
+
+  const fetchRecentReports = async () => {
+    const { data } = await supabase
+      .from("reports")
+      .select("id, title, category, status, user_id, confirmation_count, priority_score, created_at, report_attachments(id, storage_path, thumbnail_path, media_type, position)")
+      .order("created_at", { ascending: false })
+      .order("position", { referencedTable: "report_attachments", ascending: true })
+      .limit(RECENT_REPORTS_LIMIT);
 
     if (data) {
-      const stats = {
-        total: data.length,
-        verified: data.filter((r) => r.status === "verified").length,
-        pending: data.filter((r) => r.status === "pending").length,
-        rejected: data.filter((r) => r.status === "rejected").length,
-      };
-      setStats(stats);
+      setRecentReports(data);
     }
   };
 
@@ -56,7 +131,7 @@ export default function Dashboard() {
       <Navigation />
       <main className="container mx-auto p-6">
         <h1 className="mb-6 text-3xl font-bold">Dashboard</h1>
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        <div className="grid gap-6 md:grid-cols-4 lg:grid-cols-7">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
               <CardTitle className="text-sm font-medium text-muted-foreground">Total Reports</CardTitle>
@@ -84,6 +159,33 @@ export default function Dashboard() {
               <div className="text-3xl font-bold text-accent">{stats.pending}</div>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">In Progress</CardTitle>
+              <Wrench className="h-4 w-4 text-primary" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold text-primary">{stats.inProgress}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Resolved</CardTitle>
+              <CheckCheck className="h-4 w-4 text-success" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{stats.resolved}</div>
+            </CardContent>
+          </Card>
+          <Card className={cn(stats.critical > 0 && "border-destructive bg-destructive/5")}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Critical</CardTitle>
+              <Flame className="h-4 w-4 text-destructive" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold text-destructive">{stats.critical}</div>
+            </CardContent>
+          </Card>
           <Card>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
               <CardTitle className="text-sm font-medium text-muted-foreground">Rejected</CardTitle>
@@ -94,6 +196,55 @@ export default function Dashboard() {
             </CardContent>
           </Card>
         </div>
+        <div className="mt-10">
+          <ReportTrends />
+        </div>
+        <h2 className="mb-4 mt-10 text-xl font-semibold">Recent Reports</h2>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {recentReports.map((report) => {
+            const cover = report.report_attachments[0];
+            const coverPath = cover ? getPreviewPath(cover) : null;
+            const coverUrl = coverPath ? coverUrls[coverPath] : null;
+            const critical = OPEN_STATUSES.includes(report.status) && isCriticalPriority(report.priority_score);
+            return (
+              <Card key={report.id} className={cn("overflow-hidden", critical && "border-2 border-destructive")}>
+                <div className="relative flex h-32 items-center justify-center bg-muted">
+                  {coverUrl ? (
+                    <img
+                      src={coverUrl}
+                      alt=""
+                      loading="lazy"
+                      className="h-full w-full object-cover"
+                    />
+                  ) : (
+                    <ImageOff className="h-6 w-6 text-muted-foreground" />
+                  )}
+                  {cover?.media_type === "video" && (
+                    <Film className="absolute bottom-2 right-2 h-4 w-4 text-white drop-shadow" />
+                  )}
+                </div>
+                <CardContent className="space-y-2 pt-4">
+                  <Link to={getReportPath(report.id)} className="block truncate font-medium hover:underline">
+                    {report.title}
+                  </Link>
+                  <div className="flex items-center gap-2">
+                    <CategoryBadge category={report.category} />
+                    <Badge className={getStatusColor(report.status)}>{STATUS_LABELS[report.status]}</Badge>
+                    {critical && <PriorityBadge score={report.priority_score} />}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{new Date(report.created_at).toLocaleDateString()}</p>
+                  <ConfirmReportButton
+                    reportId={report.id}
+                    ownerId={report.user_id}
+                    status={report.status}
+                    count={report.confirmation_count}
+                  />
+                </CardContent>
+              </Card>
+            );
+          })}
+          {recentReports.length === 0 && <p className="text-muted-foreground">No reports yet.</p>}
+        </div>
       </main>
     </div>
   );
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Navigation } from "@/components/Navigation";
+import { ReportForm, ReportFormValues } from "@/components/ReportForm";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { ReportInput } from "@/lib/reports";
+import { toReportDetails } from "@/lib/categories";
+
+export default function EditReport() {
+  const { id } = useParams<{ id: string }>();
+  const [initialValues, setInitialValues] = useState<ReportFormValues | null>(null);
+  const [editable, setEditable] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user || !id) return;
+
+    const fetchReport = async () => {
+      const { data } = await supabase
+        .from("reports")
+        .select("title, category, severity, description, location, latitude, longitude, details, status")
+        .eq("id", id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (data) {
+        setInitialValues({
+          title: data.title,
+          category: data.category,
+          severity: data.severity,
+          description: data.description,
+          location: data.location ?? "",
+          coordinates:
+            data.latitude !== null && data.longitude !== null
+              ? { latitude: data.latitude, longitude: data.longitude }
+              : null,
+          details: toReportDetails(data.details),
+        });
+        setEditable(data.status === "pending");
+      }
+      setLoading(false);
+    };
+
+    fetchReport();
+  }, [user, id]);
+
+  const handleSubmit = async (input: ReportInput) => {
+    if (!user || !id) return;
+
+    // Only pending reports can change; a moderator may have acted meanwhile
+    const { data, error } = await supabase
+      .from("reports")
+      .update({
+        title: input.title,
+        category: input.category,
+        severity: input.severity,
+        description: input.description,
+        location: input.location || null,
+        latitude: input.latitude ?? null,
+        longitude: input.longitude ?? null,
+        details: input.details,
+      })
+      .eq("id", id)
+      .eq("status", "pending")
+      .select("id");
+
+    if (error || !data?.length) {
+      toast({
+        title: "Update failed",
+        description: error?.message ?? "This report has already been reviewed and can no longer be edited.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Report updated",
+      description: "Your changes have been saved.",
+    });
+    navigate("/my-reports");
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto p-6">
+          <p>Loading report...</p>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto max-w-2xl p-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Edit Report</CardTitle>
+            {initialValues && !editable && (
+              <CardDescription>This report has already been reviewed and can no longer be edited.</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!initialValues ? (
+              <p className="text-muted-foreground">Report not found.</p>
+            ) : editable ? (
+              <ReportForm
+                initialValues={initialValues}
+                submitLabel="Save Changes"
+                submittingLabel="Saving..."
+                onSubmit={handleSubmit}
+              />
+            ) : null}
+            {(!initialValues || !editable) && (
+              <Link to="/my-reports">
+                <Button variant="outline" className="mt-4">
+                  Back to My Reports
+                </Button>
+              </Link>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { addDays, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Navigation } from "@/components/Navigation";
+import { MapReport, ReportMap, ReportMapLegend } from "@/components/ReportMap";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useDebouncedCallback } from "@/hooks/use-debounced-callback";
+import { ReportStatus, STATUS_LABELS, getReportPath } from "@/lib/reports";
+
+interface Filters {
+  category: string;
+  status: ReportStatus | "all";
+  from: string;
+  to: string;
+}
+
+// PostgREST caps each response, so the map loads reports page by page
+const PAGE_SIZE = 1000;
+// Beyond this the map is unreadable anyway; narrow the filters instead
+const MAX_REPORTS = 5000;
+const REFRESH_DELAY = 1000; // ms
+
+export default function IncidentMap() {
+  const [reports, setReports] = useState<MapReport[]>([]);
+  const [filters, setFilters] = useState<Filters>({ category: "all", status: "all", from: "", to: "" });
+  const { categories } = useCategories();
+
+  const [truncated, setTruncated] = useState(false);
+  // Drops responses that a newer fetch has overtaken
+  const latestRequest = useRef(0);
+
+  const fetchReports = useCallback(async () => {
+    const request = ++latestRequest.current;
+    const loaded: MapReport[] = [];
+
+    while (loaded.length < MAX_REPORTS) {
+      let query = supabase
+        .from("reports")
+        .select("id, title, category, status, location, latitude, longitude, created_at")
+        .not("latitude", "is", null)
+        .not("longitude", "is", null);
+
+      if (filters.category !== "all") query = query.eq("category", filters.category);
+      if (filters.status !== "all") query = query.eq("status", filters.status);
+      // Date inputs are local days; parseISO reads them as local midnight
+      if (filters.from) query = query.gte("created_at", parseISO(filters.from).toISOString());
+      if (filters.to) query = query.lt("created_at", addDays(parseISO(filters.to), 1).toISOString());
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id")
+        .range(loaded.length, loaded.length + PAGE_SIZE - 1);
+
+      if (error || request !== latestRequest.current) return;
+
+      loaded.push(...(data as MapReport[]));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    setReports(loaded);
+    setTruncated(loaded.length >= MAX_REPORTS);
+  }, [filters]);
+
+  // Coalesces bursts of realtime events, e.g. a bulk moderation decision
+  const refresh = useDebouncedCallback(fetchReports, REFRESH_DELAY);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("map-reports")
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "reports",
+        },
+        () => {
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [refresh]);
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto space-y-6 p-6">
+        <h1 className="text-3xl font-bold">Incident Map</h1>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Filters</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={filters.category}
+                onValueChange={(value) => updateFilter("category", value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {categories.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => updateFilter("status", value as Filters["status"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => updateFilter("from", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilter("to", e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+        <div className="h-[600px] overflow-hidden rounded-lg border border-border">
+          <ReportMap
+            reports={reports}
+            className="h-full w-full"
+            getReportLink={(report) => getReportPath(report.id)}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <ReportMapLegend />
+          <p className="text-sm text-muted-foreground">
+            {truncated
+              ? `Showing the ${MAX_REPORTS} most recent reports. Narrow the filters to see others.`
+              : `${reports.length} reports shown`}
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
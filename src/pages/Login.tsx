@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useLocation, useNavigate, Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,6 +13,7 @@ export default function Login() {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
 
   const handleLogin = async (e: React.FormEvent) => {
@@ -31,7 +32,7 @@ export default function Login() {
         variant: "destructive",
       });
     } else {
-      navigate("/dashboard");
+      navigate((location.state as { from?: string } | null)?.from ?? "/dashboard");
     }
 
     setLoading(false);
@@ -80,6 +81,11 @@ export default function Login() {
               Sign up
             </Link>
           </div>
+          <div className="mt-2 text-center text-sm text-muted-foreground">
+            <Link to="/public" className="text-primary hover:underline">
+              Browse public reports
+            </Link>
+          </div>
           <div className="mt-4 rounded-md bg-muted p-3 text-xs text-muted-foreground">
             <strong>Demo Moderator:</strong>
             <br />
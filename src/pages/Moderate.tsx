@@ -1,11 +1,72 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { addDays, parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { Navigation } from "@/components/Navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
 import { useToast } from "@/hooks/use-toast";
-import { CheckCircle, XCircle, MapPin, Calendar } from "lucide-react";
+import { useDebouncedCallback } from "@/hooks/use-debounced-callback";
+import { useStatusTransitions } from "@/hooks/use-status-transitions";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CheckCircle, ChevronDown, XCircle, MapPin, Calendar, Search, ThumbsUp } from "lucide-react";
+import { ReportTimeline } from "@/components/ReportTimeline";
+import { ModeratorNotes } from "@/components/ModeratorNotes";
+import { ReportDecision } from "@/components/ReportDecision";
+import { Rejection, RejectReportDialog } from "@/components/RejectReportDialog";
+import { ReportMedia } from "@/components/ReportMedia";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { ReportDetails } from "@/components/ReportDetails";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { DuplicateReport, DuplicateReports } from "@/components/DuplicateReports";
+import { PriorityOverride } from "@/components/PriorityOverride";
+import { formatCoordinates } from "@/lib/map";
+import { ReportAttachment } from "@/lib/attachments";
+import { toReportDetails } from "@/lib/categories";
+import { Json } from "@/integrations/supabase/types";
+import {
+  REJECTION_REASON_LABELS,
+  RejectionReason,
+  ReportSeverity,
+  ReportStatus,
+  SEVERITY_LABELS,
+  STATUS_LABELS,
+  getReportPath,
+  getStatusColor,
+} from "@/lib/reports";
+
+const PAGE_SIZE = 10;
+const REFRESH_DELAY = 1000; // ms
+
+// The most pressing reports come first by default
+const SORT_OPTIONS = {
+  priority: { label: "Highest priority", column: "priority_score", ascending: false },
+  confirmed: { label: "Most confirmed", column: "confirmation_count", ascending: false },
+  newest: { label: "Newest first", column: "created_at", ascending: false },
+  oldest: { label: "Oldest first", column: "created_at", ascending: true },
+  updated: { label: "Recently updated", column: "updated_at", ascending: false },
+  title: { label: "Title (A-Z)", column: "title", ascending: true },
+} as const;
+
+type SortOption = keyof typeof SORT_OPTIONS;
 
 interface Report {
   id: string;
@@ -13,19 +74,119 @@ interface Report {
   category: string;
   description: string;
   location: string | null;
-  image_url: string | null;
-  status: string;
+  latitude: number | null;
+  longitude: number | null;
+  details: Json;
+  report_attachments: ReportAttachment[];
+  status: ReportStatus;
+  rejection_reason: RejectionReason | null;
+  rejection_details: string | null;
+  verified_at: string | null;
+  user_id: string;
+  confirmation_count: number;
+  severity: ReportSeverity;
+  priority_score: number;
+  priority_override: number | null;
   created_at: string;
 }
 
+// Page numbers to render, with null marking a gap
+const getPageNumbers = (current: number, total: number) => {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
 export default function Moderate() {
   const [reports, setReports] = useState<Report[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [search, setSearch] = useState(searchParams.get("q") ?? "");
+  const [duplicates, setDuplicates] = useState<Record<string, DuplicateReport[]>>({});
+  // Reports whose decision should not carry over to their duplicates
+  const [decideAlone, setDecideAlone] = useState<Set<string>>(new Set());
+  const [rejectingIds, setRejectingIds] = useState<string[] | null>(null);
   const { toast } = useToast();
+  const { categories } = useCategories();
+  const getNextStatuses = useStatusTransitions();
+
+  const query = searchParams.get("q") ?? "";
+  const status = searchParams.get("status") ?? "all";
+  const category = searchParams.get("category") ?? "all";
+  const from = searchParams.get("from") ?? "";
+  const to = searchParams.get("to") ?? "";
+  const sortParam = searchParams.get("sort");
+  const sort: SortOption = sortParam && sortParam in SORT_OPTIONS ? (sortParam as SortOption) : "priority";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const fetchDuplicates = async (reportIds: string[]) => {
+    if (reportIds.length === 0) {
+      setDuplicates({});
+      return;
+    }
+
+    const { data } = await supabase.rpc("find_report_duplicates", { _report_ids: reportIds });
+    const grouped: Record<string, DuplicateReport[]> = {};
+    for (const { report_id, ...duplicate } of data ?? []) {
+      (grouped[report_id] ??= []).push(duplicate);
+    }
+    setDuplicates(grouped);
+  };
+
+  const fetchReports = useCallback(async () => {
+    const { column, ascending } = SORT_OPTIONS[sort];
+    let request = supabase
+      .from("reports")
+      .select(
+        "id, title, category, description, location, latitude, longitude, details, status, rejection_reason, rejection_details, verified_at, user_id, confirmation_count, severity, priority_score, priority_override, created_at, report_attachments(id, storage_path, thumbnail_path, media_type, position)",
+        { count: "exact" }
+      );
+
+    if (status !== "all") request = request.eq("status", status as ReportStatus);
+    if (category !== "all") request = request.eq("category", category);
+    // The dates are days in the moderator's time zone
+    if (from) request = request.gte("created_at", parseISO(from).toISOString());
+    if (to) request = request.lt("created_at", addDays(parseISO(to), 1).toISOString());
+    if (query) {
+      request = request.textSearch("search_vector", query, { type: "websearch", config: "english" });
+    }
+
+    const { data, count, error } = await request
+      .order(column, { ascending })
+      // Oldest first among ties, e.g. equally confirmed reports
+      .order("created_at", { ascending: true })
+      .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+    if (error) {
+      toast({
+        title: "Failed to load reports",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setReports(data);
+      setTotalCount(count ?? 0);
+      fetchDuplicates(data.filter((report) => report.status === "pending").map((report) => report.id));
+    }
+    setLoading(false);
+  }, [query, status, category, from, to, sort, page, toast]);
+
+  // Coalesces bursts of realtime events, e.g. residents confirming reports
+  const refresh = useDebouncedCallback(fetchReports, REFRESH_DELAY);
 
   useEffect(() => {
     fetchReports();
+  }, [fetchReports]);
 
+  useEffect(() => {
     const channel = supabase
       .channel("moderate-reports")
       .on(
@@ -36,7 +197,7 @@ export default function Moderate() {
           table: "reports",
         },
         () => {
-          fetchReports();
+          refresh();
         }
       )
       .subscribe();
@@ -44,25 +205,75 @@ export default function Moderate() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [refresh]);
 
-  const fetchReports = async () => {
-    const { data } = await supabase
-      .from("reports")
-      .select("*")
-      .order("created_at", { ascending: false });
+  // Keep the search box in sync when the URL changes through navigation
+  useEffect(() => {
+    setSearch(query);
+  }, [query]);
 
-    if (data) {
-      setReports(data);
-    }
-    setLoading(false);
+  // Changing any filter resets the queue to its first page
+  const updateParams = (updates: Record<string, string>) => {
+    setSearchParams((current) => {
+      const next = new URLSearchParams(current);
+      for (const [key, value] of Object.entries(updates)) {
+        if (value && value !== "all") {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      }
+      if (!("page" in updates)) next.delete("page");
+      return next;
+    });
   };
 
-  const updateStatus = async (reportId: string, status: "verified" | "rejected") => {
+  const pageHref = (target: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("page", String(target));
+    return `?${next.toString()}`;
+  };
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    if (target < 1 || target > pageCount || target === page) return;
+    updateParams({ page: String(target) });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: search.trim() });
+  };
+
+  // The report plus, unless opted out, the pending duplicates grouped under it
+  const getCluster = (reportId: string) =>
+    decideAlone.has(reportId)
+      ? [reportId]
+      : [reportId, ...(duplicates[reportId] ?? []).map((duplicate) => duplicate.id)];
+
+  // Pending duplicates of a report higher up the page are listed in its card
+  // instead of getting a card of their own
+  const grouped = new Set<string>();
+  const visibleReports = reports.filter((report) => {
+    if (grouped.has(report.id)) return false;
+    duplicates[report.id]?.forEach((duplicate) => grouped.add(duplicate.id));
+    return true;
+  });
+
+  const updateStatus = async (reportIds: string[], from: ReportStatus, status: ReportStatus, rejection?: Rejection) => {
     const { error } = await supabase
       .from("reports")
-      .update({ status })
-      .eq("id", reportId);
+      .update({
+        status,
+        rejection_reason: rejection?.reason ?? null,
+        rejection_details: rejection?.details ?? null,
+        status_note: rejection
+          ? [REJECTION_REASON_LABELS[rejection.reason], rejection.details].filter(Boolean).join(": ")
+          : null,
+      })
+      .in("id", reportIds)
+      // Leave reports alone that another moderator already moved on
+      .eq("status", from);
 
     if (error) {
       toast({
@@ -73,24 +284,14 @@ export default function Moderate() {
     } else {
       toast({
         title: "Report updated",
-        description: `Report ${status}.`,
+        description:
+          reportIds.length > 1
+            ? `${reportIds.length} reports marked ${STATUS_LABELS[status].toLowerCase()}.`
+            : `Report marked ${STATUS_LABELS[status].toLowerCase()}.`,
       });
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "verified":
-        return "bg-success text-success-foreground";
-      case "pending":
-        return "bg-accent text-accent-foreground";
-      case "rejected":
-        return "bg-destructive text-destructive-foreground";
-      default:
-        return "";
-    }
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -107,16 +308,120 @@ export default function Moderate() {
       <Navigation />
       <main className="container mx-auto p-6">
         <h1 className="mb-6 text-3xl font-bold">Moderate Reports</h1>
+        <Card className="mb-6">
+          <CardContent className="space-y-4 pt-6">
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search titles and descriptions"
+                aria-label="Search reports"
+              />
+              <Button type="submit" variant="secondary">
+                <Search className="mr-2 h-4 w-4" />
+                Search
+              </Button>
+            </form>
+            <div className="grid gap-4 md:grid-cols-5">
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={(value) => updateParams({ status: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={category} onValueChange={(value) => updateParams({ category: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All categories</SelectItem>
+                    {categories.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="from">From</Label>
+                <Input
+                  id="from"
+                  type="date"
+                  value={from}
+                  max={to || undefined}
+                  onChange={(e) => updateParams({ from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="to">To</Label>
+                <Input
+                  id="to"
+                  type="date"
+                  value={to}
+                  min={from || undefined}
+                  onChange={(e) => updateParams({ to: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Sort by</Label>
+                <Select value={sort} onValueChange={(value) => updateParams({ sort: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+                      <SelectItem key={value} value={value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <p className="mb-4 text-sm text-muted-foreground">
+          {totalCount} {totalCount === 1 ? "report" : "reports"} found
+        </p>
         <div className="space-y-4">
-          {reports.map((report) => (
+          {visibleReports.map((report) => (
             <Card key={report.id}>
               <CardHeader>
                 <div className="flex items-start justify-between">
                   <div className="space-y-1">
-                    <CardTitle>{report.title}</CardTitle>
+                    <CardTitle>
+                      <Link to={getReportPath(report.id)} className="hover:underline">
+                        {report.title}
+                      </Link>
+                    </CardTitle>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <Badge variant="outline">{report.category.replace("_", " ")}</Badge>
-                      <Badge className={getStatusColor(report.status)}>{report.status}</Badge>
+                      <CategoryBadge category={report.category} />
+                      <Badge className={getStatusColor(report.status)}>{STATUS_LABELS[report.status]}</Badge>
+                      <PriorityOverride
+                        reportId={report.id}
+                        score={report.priority_score}
+                        override={report.priority_override}
+                      />
+                      <span>{SEVERITY_LABELS[report.severity]} severity</span>
+                      {report.confirmation_count > 0 && (
+                        <span className="flex items-center gap-1" title="People affected">
+                          <ThumbsUp className="h-4 w-4" />
+                          {report.confirmation_count}
+                        </span>
+                      )}
                     </div>
                   </div>
                   {report.status === "pending" && (
@@ -124,7 +429,7 @@ export default function Moderate() {
                       <Button
                         size="sm"
                         variant="default"
-                        onClick={() => updateStatus(report.id, "verified")}
+                        onClick={() => updateStatus(getCluster(report.id), "pending", "verified")}
                       >
                         <CheckCircle className="mr-2 h-4 w-4" />
                         Verify
@@ -132,41 +437,135 @@ export default function Moderate() {
                       <Button
                         size="sm"
                         variant="destructive"
-                        onClick={() => updateStatus(report.id, "rejected")}
+                        onClick={() => setRejectingIds(getCluster(report.id))}
                       >
                         <XCircle className="mr-2 h-4 w-4" />
                         Reject
                       </Button>
                     </div>
                   )}
+                  {report.status !== "pending" && getNextStatuses(report.status).length > 0 && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="outline">
+                          Update status
+                          <ChevronDown className="ml-2 h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {getNextStatuses(report.status).map((next) => (
+                          <DropdownMenuItem key={next} onSelect={() => updateStatus([report.id], report.status, next)}>
+                            {STATUS_LABELS[next]}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
                 <p className="text-sm">{report.description}</p>
-                {report.location && (
+                <ReportDetails category={report.category} details={toReportDetails(report.details)} />
+                {report.status !== "pending" && (
+                  <ReportDecision
+                    status={report.status}
+                    verifiedAt={report.verified_at}
+                    rejectionReason={report.rejection_reason}
+                    rejectionDetails={report.rejection_details}
+                  />
+                )}
+                {(report.location || report.latitude !== null) && (
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <MapPin className="h-4 w-4" />
                     {report.location}
+                    {report.latitude !== null && report.longitude !== null && (
+                      <a
+                        href={`https://www.openstreetmap.org/?mlat=${report.latitude}&mlon=${report.longitude}#map=17/${report.latitude}/${report.longitude}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        {formatCoordinates({ latitude: report.latitude, longitude: report.longitude })}
+                      </a>
+                    )}
                   </div>
                 )}
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Calendar className="h-4 w-4" />
                   {new Date(report.created_at).toLocaleDateString()}
                 </div>
-                {report.image_url && (
-                  <img
-                    src={report.image_url}
-                    alt="Report"
-                    className="h-48 w-full rounded-md object-cover"
+                <ReportMedia attachments={report.report_attachments} variant="thumbnails" />
+                {report.status === "pending" && duplicates[report.id] && (
+                  <DuplicateReports
+                    reportId={report.id}
+                    duplicates={duplicates[report.id]}
+                    applyDecision={!decideAlone.has(report.id)}
+                    onApplyDecisionChange={(apply) =>
+                      setDecideAlone((current) => {
+                        const next = new Set(current);
+                        if (apply) {
+                          next.delete(report.id);
+                        } else {
+                          next.add(report.id);
+                        }
+                        return next;
+                      })
+                    }
                   />
                 )}
+                <ReportTimeline reportId={report.id} ownerId={report.user_id} status={report.status} />
+                <ModeratorNotes reportId={report.id} />
               </CardContent>
             </Card>
           ))}
           {reports.length === 0 && (
-            <p className="text-center text-muted-foreground">No reports yet.</p>
+            <p className="text-center text-muted-foreground">No reports match these filters.</p>
           )}
         </div>
+        <RejectReportDialog
+          open={rejectingIds !== null}
+          onOpenChange={(open) => !open && setRejectingIds(null)}
+          onConfirm={(rejection) => updateStatus(rejectingIds!, "pending", "rejected", rejection)}
+        />
+        {pageCount > 1 && (
+          <Pagination className="mt-6">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href={pageHref(page - 1)}
+                  onClick={(e) => goToPage(e, page - 1)}
+                  aria-disabled={page === 1}
+                  className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+              {getPageNumbers(page, pageCount).map((number, index) =>
+                number === null ? (
+                  <PaginationItem key={`gap-${index}`}>
+                    <PaginationEllipsis />
+                  </PaginationItem>
+                ) : (
+                  <PaginationItem key={number}>
+                    <PaginationLink
+                      href={pageHref(number)}
+                      onClick={(e) => goToPage(e, number)}
+                      isActive={number === page}
+                    >
+                      {number}
+                    </PaginationLink>
+                  </PaginationItem>
+                )
+              )}
+              <PaginationItem>
+                <PaginationNext
+                  href={pageHref(page + 1)}
+                  onClick={(e) => goToPage(e, page + 1)}
+                  aria-disabled={page === pageCount}
+                  className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Navigation } from "@/components/Navigation";
+import { ReportDecision } from "@/components/ReportDecision";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { ConfirmReportButton } from "@/components/ConfirmReportButton";
+import { ReportTimeline } from "@/components/ReportTimeline";
+import { ReportDetails } from "@/components/ReportDetails";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { Calendar, FileText, MapPin, Pencil, Undo2 } from "lucide-react";
+import { ReportMedia } from "@/components/ReportMedia";
+import { formatCoordinates } from "@/lib/map";
+import { ReportAttachment } from "@/lib/attachments";
+import { toReportDetails } from "@/lib/categories";
+import { Json } from "@/integrations/supabase/types";
+import {
+  RejectionReason,
+  ReportStatus,
+  STATUS_LABELS,
+  getReportPath,
+  getStatusColor,
+} from "@/lib/reports";
+
+interface Report {
+  id: string;
+  title: string;
+  category: string;
+  description: string;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  details: Json;
+  report_attachments: ReportAttachment[];
+  status: ReportStatus;
+  rejection_reason: RejectionReason | null;
+  rejection_details: string | null;
+  verified_at: string | null;
+  user_id: string;
+  confirmation_count: number;
+  created_at: string;
+}
+
+export default function MyReports() {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchReports = useCallback(async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from("reports")
+      .select(
+        "id, title, category, description, location, latitude, longitude, details, status, rejection_reason, rejection_details, verified_at, user_id, confirmation_count, created_at, report_attachments(id, storage_path, thumbnail_path, media_type, position)"
+      )
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (data) {
+      setReports(data);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchReports();
+
+    const channel = supabase
+      .channel("my-reports")
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "reports",
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          fetchReports();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchReports]);
+
+  const withdrawReport = async (reportId: string) => {
+    const { data, error } = await supabase
+      .from("reports")
+      .update({ status: "withdrawn" })
+      .eq("id", reportId)
+      .eq("status", "pending")
+      .select("id");
+
+    if (error || !data?.length) {
+      toast({
+        title: "Withdrawal failed",
+        description: error?.message ?? "This report has already been reviewed.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Report withdrawn",
+        description: "Your report has been withdrawn.",
+      });
+    }
+    setWithdrawingId(null);
+  };
+
+  const selected = reports.find((report) => report.id === selectedId) ?? null;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <main className="container mx-auto p-6">
+          <p>Loading your reports...</p>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto p-6">
+        <div className="mb-6 flex items-center justify-between">
+          <h1 className="text-3xl font-bold">My Reports</h1>
+          <Link to="/submit-report">
+            <Button>
+              <FileText className="mr-2 h-4 w-4" />
+              New Report
+            </Button>
+          </Link>
+        </div>
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <Card key={report.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="space-y-1">
+                    <CardTitle>
+                      <Link to={getReportPath(report.id)} className="hover:underline">
+                        {report.title}
+                      </Link>
+                    </CardTitle>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <CategoryBadge category={report.category} />
+                      <Badge className={getStatusColor(report.status)}>{STATUS_LABELS[report.status]}</Badge>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {report.status === "pending" && (
+                      <>
+                        <Link to={`/my-reports/${report.id}/edit`}>
+                          <Button size="sm" variant="ghost">
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </Button>
+                        </Link>
+                        <Button size="sm" variant="ghost" onClick={() => setWithdrawingId(report.id)}>
+                          <Undo2 className="mr-2 h-4 w-4" />
+                          Withdraw
+                        </Button>
+                      </>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setSelectedId(report.id)}>
+                      View details
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <ReportDecision
+                  status={report.status}
+                  verifiedAt={report.verified_at}
+                  rejectionReason={report.rejection_reason}
+                  rejectionDetails={report.rejection_details}
+                />
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Calendar className="h-4 w-4" />
+                  Submitted {new Date(report.created_at).toLocaleDateString()}
+                </div>
+                <ConfirmReportButton
+                  reportId={report.id}
+                  ownerId={report.user_id}
+                  status={report.status}
+                  count={report.confirmation_count}
+                />
+              </CardContent>
+            </Card>
+          ))}
+          {reports.length === 0 && (
+            <p className="text-center text-muted-foreground">You haven't submitted any reports yet.</p>
+          )}
+        </div>
+        <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            {selected && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>{selected.title}</DialogTitle>
+                  <DialogDescription className="flex items-center gap-2">
+                    <CategoryBadge category={selected.category} />
+                    <Badge className={getStatusColor(selected.status)}>{STATUS_LABELS[selected.status]}</Badge>
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <p className="whitespace-pre-wrap text-sm">{selected.description}</p>
+                  <ReportDetails category={selected.category} details={toReportDetails(selected.details)} />
+                  {(selected.location || selected.latitude !== null) && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <MapPin className="h-4 w-4" />
+                      {selected.location}
+                      {selected.latitude !== null && selected.longitude !== null && (
+                        <span>{formatCoordinates({ latitude: selected.latitude, longitude: selected.longitude })}</span>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Calendar className="h-4 w-4" />
+                    Submitted {new Date(selected.created_at).toLocaleString()}
+                  </div>
+                  <ReportMedia attachments={selected.report_attachments} />
+                  <ReportDecision
+                    status={selected.status}
+                    verifiedAt={selected.verified_at}
+                    rejectionReason={selected.rejection_reason}
+                    rejectionDetails={selected.rejection_details}
+                  />
+                  <ReportTimeline
+                    reportId={selected.id}
+                    ownerId={selected.user_id}
+                    status={selected.status}
+                    defaultOpen
+                  />
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+        <AlertDialog open={withdrawingId !== null} onOpenChange={(open) => !open && setWithdrawingId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Withdraw this report?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Moderators will no longer review it. A withdrawn report cannot be edited or resubmitted.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => withdrawingId && withdrawReport(withdrawingId)}>
+                Withdraw
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </main>
+    </div>
+  );
+}
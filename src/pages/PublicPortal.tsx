@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { PublicNavigation } from "@/components/PublicNavigation";
+import { MapReport, ReportMap, ReportMapLegend } from "@/components/ReportMap";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { usePageMetadata } from "@/hooks/use-page-metadata";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CheckCheck, CheckCircle, Lock, MapPin, RefreshCw, ThumbsUp, Wrench } from "lucide-react";
+import { ReportStatus, STATUS_LABELS, getPublicReportPath, getStatusColor } from "@/lib/reports";
+
+interface PublicReport {
+  id: string;
+  title: string;
+  category: string;
+  status: ReportStatus;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  confirmation_count: number;
+  created_at: string;
+}
+
+type PublicStats = Partial<Record<ReportStatus, number>>;
+
+const PAGE_SIZE = 20;
+
+const STAT_CARDS = [
+  { status: "verified", icon: CheckCircle, className: "text-success" },
+  { status: "in_progress", icon: Wrench, className: "text-primary" },
+  { status: "resolved", icon: CheckCheck, className: "text-success" },
+  { status: "closed", icon: Lock, className: "text-muted-foreground" },
+] as const;
+
+export default function PublicPortal() {
+  const [reports, setReports] = useState<PublicReport[]>([]);
+  // Null until loaded, so a failed load does not read as zero reports
+  const [stats, setStats] = useState<PublicStats | null>(null);
+  const [category, setCategory] = useState("all");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [statsFailed, setStatsFailed] = useState(false);
+  const [reportsFailed, setReportsFailed] = useState(false);
+  const { categories } = useCategories();
+  const { toast } = useToast();
+
+  usePageMetadata({
+    title: "Public reports",
+    description: "Verified reports of local issues and how they are being handled, no account needed.",
+    url: `${window.location.origin}/public`,
+  });
+
+  const fetchStats = useCallback(async () => {
+    // Visitors only see the totals of public statuses
+    const { data, error } = await supabase.rpc("get_report_stats", { _by_day: false, _by_category: false });
+
+    if (error) {
+      toast({
+        title: "Failed to load statistics",
+        description: error.message,
+        variant: "destructive",
+      });
+      setStatsFailed(true);
+      return;
+    }
+
+    setStatsFailed(false);
+    setStats(Object.fromEntries(data.map((row) => [row.status, row.report_count])));
+  }, [toast]);
+
+  const fetchReports = useCallback(async () => {
+    let query = supabase
+      .from("public_reports")
+      .select("id, title, category, status, location, latitude, longitude, confirmation_count, created_at")
+      .order("created_at", { ascending: false })
+      // One extra row tells whether there is more to show
+      .limit(limit + 1);
+
+    if (category !== "all") query = query.eq("category", category);
+
+    const { data, error } = await query;
+
+    if (error) {
+      toast({
+        title: "Failed to load reports",
+        description: error.message,
+        variant: "destructive",
+      });
+      setReportsFailed(true);
+    } else {
+      setReports((data as PublicReport[]).slice(0, limit));
+      setHasMore(data.length > limit);
+      setReportsFailed(false);
+    }
+    setLoading(false);
+  }, [category, limit, toast]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const retry = () => {
+    if (statsFailed) fetchStats();
+    if (reportsFailed) {
+      setLoading(true);
+      fetchReports();
+    }
+  };
+
+  const mapReports = reports.filter(
+    (report): report is PublicReport & MapReport => report.latitude !== null && report.longitude !== null
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PublicNavigation />
+      <main className="container mx-auto space-y-6 p-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">Public reports</h1>
+          <p className="text-muted-foreground">
+            Issues reported by residents and verified by moderators, and where they stand. Reporters are never shown.
+          </p>
+        </div>
+        <div className="grid gap-6 md:grid-cols-4">
+          {STAT_CARDS.map(({ status, icon: Icon, className }) => (
+            <Card key={status}>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">{STATUS_LABELS[status]}</CardTitle>
+                <Icon className={`h-4 w-4 ${className}`} />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-3xl font-bold ${className}`}>{stats ? (stats[status] ?? 0) : "–"}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+        <div className="flex items-end justify-between gap-4">
+          <h2 className="text-xl font-semibold">Latest reports</h2>
+          <div className="w-56 space-y-2">
+            <Label>Category</Label>
+            <Select
+              value={category}
+              onValueChange={(value) => {
+                setCategory(value);
+                setLimit(PAGE_SIZE);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {categories.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="h-[400px] overflow-hidden rounded-lg border border-border">
+          <ReportMap
+            reports={mapReports}
+            className="h-full w-full"
+            getReportLink={(report) => getPublicReportPath(report.id)}
+          />
+        </div>
+        <ReportMapLegend />
+        {loading ? (
+          <p>Loading reports...</p>
+        ) : statsFailed || reportsFailed ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+              <AlertTriangle className="h-10 w-10 text-muted-foreground" />
+              <div className="space-y-1">
+                <h3 className="text-lg font-semibold">Couldn't load public reports</h3>
+                <p className="text-muted-foreground">Check your connection and try again.</p>
+              </div>
+              <Button variant="outline" onClick={retry}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Try again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {reports.map((report) => (
+              <Link key={report.id} to={getPublicReportPath(report.id)}>
+                <Card className="h-full transition-colors hover:bg-muted/50">
+                  <CardContent className="space-y-2 pt-6">
+                    <p className="font-medium">{report.title}</p>
+                    <div className="flex items-center gap-2">
+                      <CategoryBadge category={report.category} />
+                      <Badge className={getStatusColor(report.status)}>{STATUS_LABELS[report.status]}</Badge>
+                    </div>
+                    {report.location && (
+                      <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <MapPin className="h-4 w-4" />
+                        {report.location}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{new Date(report.created_at).toLocaleDateString()}</span>
+                      {report.confirmation_count > 0 && (
+                        <span className="flex items-center gap-1">
+                          <ThumbsUp className="h-3 w-3" />
+                          {report.confirmation_count} affected
+                        </span>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+            {reports.length === 0 && <p className="text-muted-foreground">No public reports yet.</p>}
+          </div>
+        )}
+        {hasMore && !reportsFailed && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => setLimit((current) => current + PAGE_SIZE)}>
+              Show more
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
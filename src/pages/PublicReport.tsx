@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { PublicNavigation } from "@/components/PublicNavigation";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { ReportDetails } from "@/components/ReportDetails";
+import { ReportMedia } from "@/components/ReportMedia";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { usePageMetadata } from "@/hooks/use-page-metadata";
+import { AlertTriangle, ArrowLeft, MapPin, RefreshCw, Share2, ThumbsUp } from "lucide-react";
+import { ReportAttachment } from "@/lib/attachments";
+import { toReportDetails } from "@/lib/categories";
+import {
+  ReportSeverity,
+  ReportStatus,
+  SEVERITY_LABELS,
+  STATUS_LABELS,
+  getPublicReportShareUrl,
+  getStatusColor,
+  toShareDescription,
+} from "@/lib/reports";
+import { Json } from "@/integrations/supabase/types";
+
+interface PublicReportData {
+  id: string;
+  title: string;
+  category: string;
+  description: string;
+  details: Json;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  status: ReportStatus;
+  severity: ReportSeverity;
+  confirmation_count: number;
+  created_at: string;
+  verified_at: string | null;
+  updated_at: string;
+  report_attachments: ReportAttachment[];
+}
+
+type LoadState = "loading" | "found" | "not_found" | "error";
+
+export default function PublicReport() {
+  const { id } = useParams<{ id: string }>();
+  const [report, setReport] = useState<PublicReportData | null>(null);
+  const [state, setState] = useState<LoadState>("loading");
+  const { toast } = useToast();
+
+  usePageMetadata({
+    title: report?.title ?? (state === "not_found" ? "Report not found" : "Report"),
+    description: report ? toShareDescription(report.description) : undefined,
+    url: window.location.href,
+  });
+
+  const fetchReport = useCallback(async () => {
+    if (!id) return;
+
+    // Anything that is not a uuid cannot name a report
+    const parsedId = z.string().uuid().safeParse(id);
+    if (!parsedId.success) {
+      setState("not_found");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("public_reports")
+      .select(
+        "id, title, category, description, details, location, latitude, longitude, status, severity, confirmation_count, created_at, verified_at, updated_at, report_attachments(id, storage_path, thumbnail_path, media_type, position)"
+      )
+      .eq("id", parsedId.data)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        title: "Failed to load report",
+        description: error.message,
+        variant: "destructive",
+      });
+      setState("error");
+      return;
+    }
+
+    setReport((data as PublicReportData | null) ?? null);
+    setState(data ? "found" : "not_found");
+  }, [id, toast]);
+
+  useEffect(() => {
+    setReport(null);
+    setState("loading");
+    fetchReport();
+  }, [fetchReport]);
+
+  const retry = () => {
+    setState("loading");
+    fetchReport();
+  };
+
+  const handleShare = async () => {
+    if (!report) return;
+    const url = getPublicReportShareUrl(report.id);
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: report.title, url });
+      } catch {
+        // Dismissing the share sheet is not an error
+      }
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Anyone with the link can view this report.",
+      });
+    } catch {
+      toast({
+        title: "Failed to copy link",
+        description: url,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PublicNavigation />
+      <main className="container mx-auto max-w-3xl space-y-4 p-6">
+        <Link to="/public">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All public reports
+          </Button>
+        </Link>
+        {state === "loading" ? (
+          <p>Loading report...</p>
+        ) : state === "error" ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+              <AlertTriangle className="h-10 w-10 text-muted-foreground" />
+              <div className="space-y-1">
+                <h1 className="text-xl font-semibold">Couldn't load this report</h1>
+                <p className="text-muted-foreground">Check your connection and try again.</p>
+              </div>
+              <Button variant="outline" onClick={retry}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Try again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : !report ? (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-muted-foreground">
+                This report does not exist or is not public. Reports become public once a moderator verifies them.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="text-2xl">{report.title}</CardTitle>
+                <Button variant="outline" size="sm" onClick={handleShare}>
+                  <Share2 className="mr-2 h-4 w-4" />
+                  Share
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <CategoryBadge category={report.category} />
+                <Badge className={getStatusColor(report.status)}>{STATUS_LABELS[report.status]}</Badge>
+                <Badge variant="outline">{SEVERITY_LABELS[report.severity]} severity</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ReportMedia attachments={report.report_attachments} />
+              <p className="whitespace-pre-wrap">{report.description}</p>
+              <ReportDetails category={report.category} details={toReportDetails(report.details)} />
+              {report.location && (
+                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <MapPin className="h-4 w-4" />
+                  {report.location}
+                  {report.latitude !== null && report.longitude !== null && (
+                    <span>
+                      ({report.latitude.toFixed(5)}, {report.longitude.toFixed(5)})
+                    </span>
+                  )}
+                </p>
+              )}
+              {report.confirmation_count > 0 && (
+                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <ThumbsUp className="h-4 w-4" />
+                  {report.confirmation_count} {report.confirmation_count === 1 ? "person" : "people"} affected
+                </p>
+              )}
+              <div className="space-y-1 text-sm text-muted-foreground">
+                <p>Reported {new Date(report.created_at).toLocaleString()}</p>
+                {report.verified_at && <p>Verified {new Date(report.verified_at).toLocaleString()}</p>}
+                <p>Last updated {new Date(report.updated_at).toLocaleString()}</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
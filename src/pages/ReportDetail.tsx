@@ -0,0 +1,296 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Navigation } from "@/components/Navigation";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { ConfirmReportButton } from "@/components/ConfirmReportButton";
+import { ModeratorNotes } from "@/components/ModeratorNotes";
+import { PriorityOverride } from "@/components/PriorityOverride";
+import { ReportComments } from "@/components/ReportComments";
+import { ReportDecision } from "@/components/ReportDecision";
+import { ReportDetails } from "@/components/ReportDetails";
+import { ReportMap } from "@/components/ReportMap";
+import { ReportMedia } from "@/components/ReportMedia";
+import { ReportTimeline } from "@/components/ReportTimeline";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { AlertTriangle, Calendar, Link2, MapPin, Pencil, RefreshCw, SearchX, ShieldAlert } from "lucide-react";
+import { Json } from "@/integrations/supabase/types";
+import { ReportAttachment } from "@/lib/attachments";
+import { toReportDetails } from "@/lib/categories";
+import { formatCoordinates } from "@/lib/map";
+import {
+  RejectionReason,
+  ReportSeverity,
+  ReportStatus,
+  SEVERITY_LABELS,
+  STATUS_LABELS,
+  getStatusColor,
+} from "@/lib/reports";
+
+interface Report {
+  id: string;
+  title: string;
+  category: string;
+  description: string;
+  details: Json;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  status: ReportStatus;
+  severity: ReportSeverity;
+  priority_score: number;
+  priority_override: number | null;
+  rejection_reason: RejectionReason | null;
+  rejection_details: string | null;
+  verified_at: string | null;
+  user_id: string;
+  confirmation_count: number;
+  created_at: string;
+  updated_at: string;
+  report_attachments: ReportAttachment[];
+}
+
+// RLS hides reports the caller may not see, so "forbidden" is told apart from
+// "not found" by asking whether the report exists at all
+type LoadState = "loading" | "found" | "forbidden" | "not_found" | "error";
+
+export default function ReportDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [report, setReport] = useState<Report | null>(null);
+  const [state, setState] = useState<LoadState>("loading");
+  const { user, hasRole } = useAuth();
+  const { toast } = useToast();
+  const isModerator = hasRole("MODERATOR");
+
+  const fetchReport = useCallback(async () => {
+    // Anything that is not a uuid cannot name a report
+    const parsedId = z.string().uuid().safeParse(id);
+    if (!parsedId.success) {
+      setState("not_found");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("reports")
+      .select(
+        "id, title, category, description, details, location, latitude, longitude, status, severity, priority_score, priority_override, rejection_reason, rejection_details, verified_at, user_id, confirmation_count, created_at, updated_at, report_attachments(id, storage_path, thumbnail_path, media_type, position)"
+      )
+      .eq("id", parsedId.data)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        title: "Failed to load report",
+        description: error.message,
+        variant: "destructive",
+      });
+      // A failed refresh keeps showing the report that was already loaded
+      setState((current) => (current === "found" ? current : "error"));
+      return;
+    }
+
+    if (data) {
+      setReport(data as Report);
+      setState("found");
+      return;
+    }
+
+    const { data: exists, error: existsError } = await supabase.rpc("report_exists", { _report_id: parsedId.data });
+    setReport(null);
+    if (existsError) {
+      toast({
+        title: "Failed to load report",
+        description: existsError.message,
+        variant: "destructive",
+      });
+      setState("error");
+      return;
+    }
+    setState(exists ? "forbidden" : "not_found");
+  }, [id, toast]);
+
+  useEffect(() => {
+    // Nothing of the previous report lingers while the next one loads
+    setReport(null);
+    setState("loading");
+    fetchReport();
+
+    const channel = supabase
+      .channel(`report-${id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "reports",
+          filter: `id=eq.${id}`,
+        },
+        () => {
+          fetchReport();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, fetchReport]);
+
+  const retry = () => {
+    setState("loading");
+    fetchReport();
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link copied",
+        description: "Only people who can view this report will be able to open it.",
+      });
+    } catch {
+      toast({
+        title: "Failed to copy link",
+        description: window.location.href,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderState = () => {
+    if (state === "loading") return <p>Loading report...</p>;
+
+    if (state === "error") {
+      return (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+            <AlertTriangle className="h-10 w-10 text-muted-foreground" />
+            <div className="space-y-1">
+              <h1 className="text-xl font-semibold">Couldn't load this report</h1>
+              <p className="text-muted-foreground">Check your connection and try again.</p>
+            </div>
+            <Button variant="outline" onClick={retry}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Try again
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (state !== "found" || !report) {
+      const forbidden = state === "forbidden";
+      const Icon = forbidden ? ShieldAlert : SearchX;
+      return (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+            <Icon className="h-10 w-10 text-muted-foreground" />
+            <div className="space-y-1">
+              <h1 className="text-xl font-semibold">{forbidden ? "You can't view this report" : "Report not found"}</h1>
+              <p className="text-muted-foreground">
+                {forbidden
+                  ? "Reports are only visible to their author and moderators until they are verified."
+                  : "This report does not exist or has been deleted. Check the link and try again."}
+              </p>
+            </div>
+            <Link to="/dashboard">
+              <Button variant="outline">Back to Dashboard</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    const isOwner = report.user_id === user?.id;
+    const coordinates =
+      report.latitude !== null && report.longitude !== null
+        ? { latitude: report.latitude, longitude: report.longitude }
+        : null;
+
+    return (
+      <Card>
+        <CardHeader className="space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <CardTitle className="text-2xl">{report.title}</CardTitle>
+            <div className="flex gap-2">
+              {isOwner && report.status === "pending" && (
+                <Link to={`/my-reports/${report.id}/edit`}>
+                  <Button size="sm" variant="outline">
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </Button>
+                </Link>
+              )}
+              <Button size="sm" variant="outline" onClick={copyLink}>
+                <Link2 className="mr-2 h-4 w-4" />
+                Copy link
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <CategoryBadge category={report.category} />
+            <Badge className={getStatusColor(report.status)}>{STATUS_LABELS[report.status]}</Badge>
+            {isModerator && (
+              <PriorityOverride
+                reportId={report.id}
+                score={report.priority_score}
+                override={report.priority_override}
+              />
+            )}
+            <span>{SEVERITY_LABELS[report.severity]} severity</span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ReportMedia attachments={report.report_attachments} />
+          <p className="whitespace-pre-wrap">{report.description}</p>
+          <ReportDetails category={report.category} details={toReportDetails(report.details)} />
+          {report.status !== "pending" && (
+            <ReportDecision
+              status={report.status}
+              verifiedAt={report.verified_at}
+              rejectionReason={report.rejection_reason}
+              rejectionDetails={report.rejection_details}
+            />
+          )}
+          {(report.location || coordinates) && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <MapPin className="h-4 w-4" />
+              {report.location}
+              {coordinates && <span>{formatCoordinates(coordinates)}</span>}
+            </div>
+          )}
+          {coordinates && (
+            <div className="h-64 overflow-hidden rounded-lg border border-border">
+              <ReportMap reports={[{ ...report, ...coordinates }]} className="h-full w-full" />
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Calendar className="h-4 w-4" />
+            Submitted {new Date(report.created_at).toLocaleString()}
+          </div>
+          <ConfirmReportButton
+            reportId={report.id}
+            ownerId={report.user_id}
+            status={report.status}
+            count={report.confirmation_count}
+          />
+          <ReportTimeline reportId={report.id} ownerId={report.user_id} status={report.status} defaultOpen />
+          {isModerator && <ModeratorNotes reportId={report.id} />}
+          <ReportComments reportId={report.id} ownerId={report.user_id} status={report.status} />
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="container mx-auto max-w-3xl p-6">{renderState()}</main>
+    </div>
+  );
+}
@@ -85,6 +85,11 @@ export default function Signup() {
               Sign in
             </Link>
           </div>
+          <div className="mt-2 text-center text-sm text-muted-foreground">
+            <Link to="/public" className="text-primary hover:underline">
+              Browse public reports
+            </Link>
+          </div>
         </CardContent>
       </Card>
     </div>
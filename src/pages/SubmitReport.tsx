@@ -2,100 +2,93 @@ import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Navigation } from "@/components/Navigation";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ReportForm, ReportFormValues } from "@/components/ReportForm";
+import { SimilarReports } from "@/components/SimilarReports";
+import { AttachmentPicker } from "@/components/AttachmentPicker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
-import { z } from "zod";
-
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-
-const reportSchema = z.object({
-  title: z.string().trim().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
-  category: z.enum(["power_outage", "water_cut", "road_damage", "other"], {
-    required_error: "Category is required",
-  }),
-  description: z.string().trim().min(1, "Description is required").max(2000, "Description must be less than 2000 characters"),
-  location: z.string().trim().max(500, "Location must be less than 500 characters").optional(),
-});
+import { ReportInput } from "@/lib/reports";
+import { PreparedAttachment, REPORT_MEDIA_BUCKET, uploadWithProgress } from "@/lib/attachments";
+import { Coordinates, formatCoordinates } from "@/lib/map";
 
 export default function SubmitReport() {
-  const [title, setTitle] = useState("");
-  const [category, setCategory] = useState("");
-  const [description, setDescription] = useState("");
-  const [location, setLocation] = useState("");
-  const [image, setImage] = useState<File | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [attachments, setAttachments] = useState<PreparedAttachment[]>([]);
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [photoLocation, setPhotoLocation] = useState<Coordinates | null>(null);
+  const [progress, setProgress] = useState<Record<number, number> | undefined>();
+  const [draft, setDraft] = useState<ReportFormValues | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = async (input: ReportInput) => {
     if (!user) return;
 
-    setLoading(true);
+    // Everything uploaded so far, removed again if the submission fails
+    const uploaded: string[] = [];
 
     try {
-      // Validate inputs
-      const validationResult = reportSchema.safeParse({
-        title,
-        category,
-        description,
-        location: location || undefined,
+      // Attachments are stored under the report's id, so generate it up front
+      const reportId = crypto.randomUUID();
+      const uploads = attachments.map((attachment) => {
+        const fileExt = attachment.file.name.split(".").pop();
+        const basePath = `${user.id}/${reportId}/${crypto.randomUUID()}`;
+        return {
+          ...attachment,
+          path: `${basePath}.${fileExt}`,
+          thumbnailPath: attachment.thumbnail ? `${basePath}.thumb.jpg` : null,
+        };
       });
 
-      if (!validationResult.success) {
-        const firstError = validationResult.error.errors[0];
-        toast({
-          title: "Validation failed",
-          description: firstError.message,
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
-
-      // Validate file size
-      if (image && image.size > MAX_FILE_SIZE) {
-        toast({
-          title: "Validation failed",
-          description: "Image must be less than 5MB",
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
-
-      let imageUrl = null;
-
-      if (image) {
-        const fileExt = image.name.split(".").pop();
-        const fileName = `${crypto.randomUUID()}.${fileExt}`;
-        const { error: uploadError } = await supabase.storage
-          .from("report-images")
-          .upload(fileName, image);
-
-        if (uploadError) throw uploadError;
-
-        const { data: { publicUrl } } = supabase.storage
-          .from("report-images")
-          .getPublicUrl(fileName);
-
-        imageUrl = publicUrl;
-      }
-
-      const { error } = await supabase.from("reports").insert({
-        title: validationResult.data.title,
-        category: validationResult.data.category,
-        description: validationResult.data.description,
-        location: validationResult.data.location || null,
-        image_url: imageUrl,
-        user_id: user.id,
+      setProgress(Object.fromEntries(uploads.map((_, index) => [index, 0])));
+      await Promise.all(
+        uploads.map(async ({ file, path, thumbnail, thumbnailPath }, index) => {
+          await uploadWithProgress(path, file, (percent) =>
+            setProgress((current) => ({ ...current, [index]: percent }))
+          );
+          uploaded.push(path);
+
+          if (thumbnail && thumbnailPath) {
+            const { error: thumbnailError } = await supabase.storage
+              .from(REPORT_MEDIA_BUCKET)
+              .upload(thumbnailPath, thumbnail, { contentType: "image/jpeg" });
+
+            if (thumbnailError) throw thumbnailError;
+            uploaded.push(thumbnailPath);
+          }
+        })
+      );
+
+      // Creates the report and its attachment rows in a single transaction
+      const { error } = await supabase.rpc("submit_report", {
+        _id: reportId,
+        _title: input.title,
+        _category: input.category,
+        _description: input.description,
+        _location: input.location || undefined,
+        _latitude: input.latitude,
+        _longitude: input.longitude,
+        _details: input.details,
+        _severity: input.severity,
+        _attachments: uploads.map(({ file, mediaType, path, thumbnailPath }, index) => ({
+          storage_path: path,
+          thumbnail_path: thumbnailPath,
+          media_type: mediaType,
+          mime_type: file.type,
+          size_bytes: file.size,
+          position: index,
+        })),
       });
 
       if (error) throw error;
@@ -104,8 +97,13 @@ export default function SubmitReport() {
         title: "Report submitted",
         description: "Your report has been submitted successfully.",
       });
-      navigate("/dashboard");
+      navigate("/my-reports");
     } catch (error: any) {
+      // Best effort; anything left behind is picked up by the nightly sweep
+      if (uploaded.length > 0) {
+        await supabase.storage.from(REPORT_MEDIA_BUCKET).remove(uploaded);
+      }
+
       toast({
         title: "Submission failed",
         description: "Failed to submit report. Please try again.",
@@ -113,7 +111,7 @@ export default function SubmitReport() {
       });
     }
 
-    setLoading(false);
+    setProgress(undefined);
   };
 
   return (
@@ -125,67 +123,47 @@ export default function SubmitReport() {
             <CardTitle>Submit a Report</CardTitle>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="title">Title</Label>
-                <Input
-                  id="title"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  maxLength={200}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="category">Category</Label>
-                <Select value={category} onValueChange={setCategory} required>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="power_outage">Power Outage</SelectItem>
-                    <SelectItem value="water_cut">Water Cut</SelectItem>
-                    <SelectItem value="road_damage">Road Damage</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  maxLength={2000}
-                  rows={4}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="location">Location (optional)</Label>
-                <Input
-                  id="location"
-                  value={location}
-                  onChange={(e) => setLocation(e.target.value)}
-                  maxLength={500}
-                  placeholder="e.g., Main Street, near the park"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="image">Image (optional)</Label>
-                <Input
-                  id="image"
-                  type="file"
-                  accept="image/*"
-                  onChange={(e) => setImage(e.target.files?.[0] || null)}
+            <ReportForm
+              coordinates={coordinates}
+              onCoordinatesChange={setCoordinates}
+              onValuesChange={setDraft}
+              submitLabel="Submit Report"
+              submittingLabel="Submitting..."
+              onSubmit={handleSubmit}
+            >
+              {draft && (
+                <SimilarReports
+                  category={draft.category}
+                  title={draft.title}
+                  coordinates={draft.coordinates}
+                  onConfirmed={() => navigate("/")}
                 />
-              </div>
-              <Button type="submit" className="w-full" disabled={loading}>
-                {loading ? "Submitting..." : "Submit Report"}
-              </Button>
-            </form>
+              )}
+              <AttachmentPicker
+                attachments={attachments}
+                onChange={setAttachments}
+                onLocationFound={(found) => !coordinates && setPhotoLocation(found)}
+                progress={progress}
+                disabled={!!progress}
+              />
+            </ReportForm>
           </CardContent>
         </Card>
+        <AlertDialog open={photoLocation !== null} onOpenChange={(open) => !open && setPhotoLocation(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Use the photo's location?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This photo was taken at {photoLocation && formatCoordinates(photoLocation)}. You can use it as the
+                report's location. Either way, the location data is removed from the photo before it is uploaded.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Don't use</AlertDialogCancel>
+              <AlertDialogAction onClick={() => setCoordinates(photoLocation)}>Use location</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </main>
     </div>
   );
@@ -0,0 +1,61 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const BUCKET = "report-images";
+// Storage accepts a limited number of paths per remove call
+const BATCH_SIZE = 100;
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+// Compares in constant time so the key cannot be guessed byte by byte
+const isServiceRoleKey = (authorization: string | null, serviceRoleKey: string) => {
+  const expected = new TextEncoder().encode(`Bearer ${serviceRoleKey}`);
+  const actual = new TextEncoder().encode(authorization ?? "");
+  let difference = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected[i] ^ (actual[i] ?? 0);
+  }
+  return difference === 0;
+};
+
+// Removes report media that no report references, e.g. uploads left behind
+// when a submission was abandoned. Scheduled nightly with pg_cron, which
+// calls it with the service role key; no browser should ever call it.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: jsonHeaders });
+  }
+
+  if (!isServiceRoleKey(req.headers.get("Authorization"), serviceRoleKey)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: jsonHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+  const { data: paths, error } = await supabase.rpc("list_orphaned_report_media");
+
+  if (error) {
+    console.error("Failed to list orphaned media", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: jsonHeaders,
+    });
+  }
+
+  let removed = 0;
+  for (let start = 0; start < paths.length; start += BATCH_SIZE) {
+    const batch = paths.slice(start, start + BATCH_SIZE);
+    const { data, error: removeError } = await supabase.storage.from(BUCKET).remove(batch);
+
+    if (removeError) {
+      console.error("Failed to remove orphaned media", removeError);
+      continue;
+    }
+    removed += data.length;
+  }
+
+  return new Response(JSON.stringify({ found: paths.length, removed }), {
+    headers: jsonHeaders,
+  });
+});
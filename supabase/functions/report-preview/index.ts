@@ -0,0 +1,107 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SITE_NAME = "Smart Alert";
+// Long enough for link previews, short enough not to get cut mid-word by them
+const DESCRIPTION_LENGTH = 160;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const htmlHeaders = {
+  "Content-Type": "text/html; charset=utf-8",
+  // Reports change status; let previews refresh within the hour
+  "Cache-Control": "public, max-age=3600",
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+
+const toDescription = (text: string) =>
+  text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+
+interface Preview {
+  title: string;
+  description: string;
+  // The portal page the preview stands for
+  url: string;
+  imageUrl: string;
+}
+
+// Crawlers read the meta tags; people are sent straight on to the portal
+const renderPage = ({ title, description, url, imageUrl }: Preview) => {
+  const [safeTitle, safeDescription, safeUrl, safeImageUrl] = [title, description, url, imageUrl].map(escapeHtml);
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${safeTitle}</title>
+    <meta name="description" content="${safeDescription}" />
+    <link rel="canonical" href="${safeUrl}" />
+    <meta property="og:title" content="${safeTitle}" />
+    <meta property="og:description" content="${safeDescription}" />
+    <meta property="og:site_name" content="${SITE_NAME}" />
+    <meta property="og:type" content="article" />
+    <meta property="og:url" content="${safeUrl}" />
+    <meta property="og:image" content="${safeImageUrl}" />
+    <meta name="twitter:card" content="summary_large_image" />
+    <meta name="twitter:title" content="${safeTitle}" />
+    <meta name="twitter:description" content="${safeDescription}" />
+    <meta name="twitter:image" content="${safeImageUrl}" />
+    <meta http-equiv="refresh" content="0; url=${safeUrl}" />
+  </head>
+  <body>
+    <p><a href="${safeUrl}">${safeTitle}</a></p>
+  </body>
+</html>
+`;
+};
+
+// Share link of a public report: /functions/v1/report-preview?id=<report id>.
+// Serves the report's Open Graph tags as plain HTML, since link previews do
+// not run the portal's JavaScript. SITE_URL is the portal's public origin.
+// Supabase only serves HTML from functions on a custom domain, so the portal
+// only shares this link when VITE_SHARE_BASE_URL names that domain.
+Deno.serve(async (req) => {
+  const siteUrl = Deno.env.get("SITE_URL")!.replace(/\/$/, "");
+  const imageUrl = `${siteUrl}/og-image.png`;
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const id = new URL(req.url).searchParams.get("id") ?? "";
+  const url = `${siteUrl}/public/reports/${encodeURIComponent(id)}`;
+
+  // Only reports in the public view have a preview; anything else gets the
+  // portal's defaults and lands on its "not found" page
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!);
+  const { data: report, error } = UUID_PATTERN.test(id)
+    ? await supabase.from("public_reports").select("title, description").eq("id", id).maybeSingle()
+    : { data: null, error: null };
+
+  if (error) {
+    console.error("Failed to load report", error);
+  }
+
+  const page = report
+    ? renderPage({
+        title: `${report.title} | ${SITE_NAME}`,
+        description: toDescription(report.description),
+        url,
+        imageUrl,
+      })
+    : renderPage({
+        title: SITE_NAME,
+        description: "Verified reports of power outages, water cuts, road damage and other local issues.",
+        url,
+        imageUrl,
+      });
+
+  return new Response(page, {
+    status: report ? 200 : error ? 500 : 404,
+    headers: htmlHeaders,
+  });
+});
@@ -0,0 +1,15 @@
+-- Add coordinates to reports so they can be placed on a map
+ALTER TABLE public.reports
+  ADD COLUMN latitude DOUBLE PRECISION,
+  ADD COLUMN longitude DOUBLE PRECISION;
+
+-- Coordinates must be valid and always set together
+ALTER TABLE public.reports
+  ADD CONSTRAINT reports_latitude_range CHECK (latitude BETWEEN -90 AND 90),
+  ADD CONSTRAINT reports_longitude_range CHECK (longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT reports_coordinates_pair CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+-- Index geolocated reports for bounding-box lookups
+CREATE INDEX idx_reports_coordinates
+  ON public.reports (latitude, longitude)
+  WHERE latitude IS NOT NULL;
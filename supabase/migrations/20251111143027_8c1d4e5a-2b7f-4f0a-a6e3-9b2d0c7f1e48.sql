@@ -0,0 +1,15 @@
+-- Full-text search over report title and description
+ALTER TABLE public.reports
+  ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX idx_reports_search_vector
+  ON public.reports
+  USING GIN (search_vector);
+
+-- Indexes backing the moderation queue filters and sort orders
+CREATE INDEX idx_reports_status_created_at ON public.reports (status, created_at DESC);
+CREATE INDEX idx_reports_category_created_at ON public.reports (category, created_at DESC);
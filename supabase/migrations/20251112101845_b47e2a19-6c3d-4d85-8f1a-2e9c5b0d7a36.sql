@@ -0,0 +1,97 @@
+-- Note recorded with the latest status change, copied into the audit trail
+ALTER TABLE public.reports
+  ADD COLUMN status_note TEXT;
+
+-- Create report_events table holding the moderation audit trail
+CREATE TABLE public.report_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  from_status report_status,
+  to_status report_status NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_report_events_report_id ON public.report_events (report_id, created_at);
+
+-- Enable RLS on report_events
+ALTER TABLE public.report_events ENABLE ROW LEVEL SECURITY;
+
+-- Only moderators and the report owner can read the history; rows are
+-- written exclusively by the triggers below
+CREATE POLICY "Moderators and owners can view report events"
+  ON public.report_events
+  FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'MODERATOR')
+    OR EXISTS (
+      SELECT 1
+      FROM public.reports
+      WHERE reports.id = report_events.report_id
+        AND reports.user_id = auth.uid()
+    )
+  );
+
+-- Stamp the deciding moderator whenever a report leaves pending, and drop a
+-- stale note that was not supplied alongside this status change
+CREATE OR REPLACE FUNCTION public.prepare_report_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status_note IS NOT DISTINCT FROM OLD.status_note THEN
+      NEW.status_note = NULL;
+    END IF;
+    IF NEW.status = 'pending' THEN
+      NEW.verified_by = NULL;
+      NEW.verified_at = NULL;
+    ELSE
+      NEW.verified_by = auth.uid();
+      NEW.verified_at = now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_reports_status_change
+  BEFORE UPDATE OF status ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_report_status_change();
+
+-- Record submissions and status changes in report_events
+CREATE OR REPLACE FUNCTION public.log_report_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.report_events (report_id, actor_id, from_status, to_status, note)
+    VALUES (NEW.id, coalesce(auth.uid(), NEW.user_id), NULL, NEW.status, NULL);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.report_events (report_id, actor_id, from_status, to_status, note)
+    VALUES (NEW.id, auth.uid(), OLD.status, NEW.status, NEW.status_note);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_reports_events
+  AFTER INSERT OR UPDATE OF status ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_report_event();
+
+-- Backfill a submission event for reports created before the audit trail
+INSERT INTO public.report_events (report_id, actor_id, from_status, to_status, created_at)
+SELECT id, user_id, NULL, 'pending', created_at
+FROM public.reports;
+
+INSERT INTO public.report_events (report_id, actor_id, from_status, to_status, created_at)
+SELECT id, verified_by, 'pending', status, verified_at
+FROM public.reports
+WHERE status <> 'pending' AND verified_at IS NOT NULL;
@@ -0,0 +1,48 @@
+-- Create enum for rejection reasons
+CREATE TYPE public.rejection_reason AS ENUM ('duplicate', 'insufficient_info', 'out_of_jurisdiction', 'not_an_issue', 'other');
+
+-- Store why a report was rejected so the submitter can see it
+ALTER TABLE public.reports
+  ADD COLUMN rejection_reason rejection_reason,
+  ADD COLUMN rejection_details TEXT;
+
+-- Reports rejected before reasons existed get a generic one
+UPDATE public.reports
+SET rejection_reason = 'other'
+WHERE status = 'rejected';
+
+ALTER TABLE public.reports
+  ADD CONSTRAINT reports_rejection_reason_required
+    CHECK (status <> 'rejected' OR rejection_reason IS NOT NULL),
+  ADD CONSTRAINT reports_rejection_details_length
+    CHECK (char_length(rejection_details) <= 1000);
+
+-- Create report_notes table for internal moderator notes
+CREATE TABLE public.report_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_report_notes_report_id ON public.report_notes (report_id, created_at);
+
+-- Enable RLS on report_notes
+ALTER TABLE public.report_notes ENABLE ROW LEVEL SECURITY;
+
+-- Notes are internal: submitters never see them
+CREATE POLICY "Moderators can view report notes"
+  ON public.report_notes
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'MODERATOR'));
+
+CREATE POLICY "Moderators can add report notes"
+  ON public.report_notes
+  FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'MODERATOR') AND auth.uid() = author_id);
+
+CREATE POLICY "Moderators can delete their own report notes"
+  ON public.report_notes
+  FOR DELETE
+  USING (public.has_role(auth.uid(), 'MODERATOR') AND auth.uid() = author_id);
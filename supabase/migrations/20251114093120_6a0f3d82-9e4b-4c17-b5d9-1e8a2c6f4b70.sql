@@ -0,0 +1,2 @@
+-- Allow authors to withdraw their own reports
+ALTER TYPE public.report_status ADD VALUE IF NOT EXISTS 'withdrawn';
@@ -0,0 +1,32 @@
+-- Authors may edit their pending reports or withdraw them, but the updated
+-- row must stay theirs and may only be pending or withdrawn
+DROP POLICY "Users can update their own pending reports" ON public.reports;
+
+CREATE POLICY "Users can update their own pending reports"
+  ON public.reports
+  FOR UPDATE
+  USING (auth.uid() = user_id AND status = 'pending')
+  WITH CHECK (auth.uid() = user_id AND status IN ('pending', 'withdrawn'));
+
+-- A withdrawal is not a moderator decision, so it is not stamped
+CREATE OR REPLACE FUNCTION public.prepare_report_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status_note IS NOT DISTINCT FROM OLD.status_note THEN
+      NEW.status_note = NULL;
+    END IF;
+    IF NEW.status IN ('pending', 'withdrawn') THEN
+      NEW.verified_by = NULL;
+      NEW.verified_at = NULL;
+    ELSE
+      NEW.verified_by = auth.uid();
+      NEW.verified_at = now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
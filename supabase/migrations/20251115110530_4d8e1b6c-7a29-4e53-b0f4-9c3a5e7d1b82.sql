@@ -0,0 +1,51 @@
+-- Only moderators may set moderation fields. RLS policies only see whole
+-- rows, so this trigger compares old and new values column by column. The
+-- one exception is an author withdrawing their own pending report.
+-- Requests without a signed-in user (migrations, the service role) are
+-- trusted; anonymous clients have no insert or update policy on reports.
+CREATE OR REPLACE FUNCTION public.guard_report_moderation_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'MODERATOR') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending'
+      OR NEW.verified_by IS NOT NULL
+      OR NEW.verified_at IS NOT NULL
+      OR NEW.rejection_reason IS NOT NULL
+      OR NEW.rejection_details IS NOT NULL THEN
+      RAISE EXCEPTION 'New reports must be submitted as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT (OLD.status = 'pending' AND NEW.status = 'withdrawn' AND OLD.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.verified_by IS DISTINCT FROM OLD.verified_by
+    OR NEW.verified_at IS DISTINCT FROM OLD.verified_at
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.rejection_details IS DISTINCT FROM OLD.rejection_details THEN
+    RAISE EXCEPTION 'Only moderators can change the moderation details of a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to sort before prepare_reports_status_change, so it checks the values
+-- the client sent rather than the ones stamped by that trigger
+CREATE TRIGGER guard_reports_moderation_fields
+  BEFORE INSERT OR UPDATE ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_report_moderation_fields();
@@ -0,0 +1,46 @@
+-- Create enum for attachment media types
+CREATE TYPE public.attachment_media_type AS ENUM ('image', 'video');
+
+-- Create report_attachments table for photos and clips attached to a report
+CREATE TABLE public.report_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  media_type attachment_media_type NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  position SMALLINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_report_attachments_report_id ON public.report_attachments (report_id, position);
+
+-- Enable RLS on report_attachments
+ALTER TABLE public.report_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Attachments are visible exactly when their report is; the subquery is
+-- itself filtered by the reports RLS policies
+CREATE POLICY "Users can view attachments of visible reports"
+  ON public.report_attachments
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.reports WHERE reports.id = report_attachments.report_id));
+
+CREATE POLICY "Users can attach files to their own pending reports"
+  ON public.report_attachments
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.reports
+      WHERE reports.id = report_attachments.report_id
+        AND reports.user_id = auth.uid()
+        AND reports.status = 'pending'
+    )
+  );
+
+-- Raise the bucket limit to fit short video clips; per-type limits are
+-- enforced by the client before upload
+UPDATE storage.buckets
+SET file_size_limit = 50 * 1024 * 1024,
+    allowed_mime_types = ARRAY['image/*', 'video/*']
+WHERE id = 'report-images';
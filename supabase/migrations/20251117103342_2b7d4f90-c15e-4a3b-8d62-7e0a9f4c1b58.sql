@@ -0,0 +1,4 @@
+-- Small preview rendered in the browser before upload, shown in lists
+-- instead of the full-size file
+ALTER TABLE public.report_attachments
+  ADD COLUMN thumbnail_path TEXT;
@@ -0,0 +1,62 @@
+-- Move single images from before attachments existed into report_attachments,
+-- since their public URLs stop working once the bucket is private
+INSERT INTO public.report_attachments (report_id, storage_path, media_type, mime_type, size_bytes, position)
+SELECT
+  reports.id,
+  objects.name,
+  'image',
+  coalesce(objects.metadata->>'mimetype', 'image/jpeg'),
+  greatest(coalesce((objects.metadata->>'size')::bigint, 1), 1),
+  0
+FROM public.reports
+JOIN storage.objects
+  ON objects.bucket_id = 'report-images'
+  AND reports.image_url LIKE '%/report-images/' || objects.name
+WHERE reports.image_url IS NOT NULL
+ON CONFLICT (storage_path) DO NOTHING;
+
+UPDATE public.reports
+SET image_url = NULL
+WHERE image_url IS NOT NULL;
+
+COMMENT ON COLUMN public.reports.image_url IS 'Deprecated: images are stored in report_attachments';
+
+-- Make the bucket private; clients read through short-lived signed URLs
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'report-images';
+
+DROP POLICY "Anyone can view report images" ON storage.objects;
+DROP POLICY "Authenticated users can upload report images" ON storage.objects;
+
+-- Objects are readable by whoever can read the report they belong to:
+-- the uploader (files live under their user id), moderators, or anyone
+-- once the report is verified
+CREATE POLICY "Users can view images of visible reports"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'report-images'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR public.has_role(auth.uid(), 'MODERATOR')
+      OR EXISTS (
+        SELECT 1
+        FROM public.report_attachments
+        JOIN public.reports ON reports.id = report_attachments.report_id
+        WHERE reports.status = 'verified'
+          AND objects.name IN (report_attachments.storage_path, report_attachments.thumbnail_path)
+      )
+    )
+  );
+
+CREATE INDEX idx_report_attachments_thumbnail_path ON public.report_attachments (thumbnail_path);
+
+CREATE POLICY "Users can upload images to their own folder"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'report-images'
+    AND auth.uid() IS NOT NULL
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,105 @@
+-- Create a report together with its attachment rows in one transaction.
+-- Runs with the caller's privileges, so the usual RLS policies and the
+-- moderation guard still apply.
+CREATE OR REPLACE FUNCTION public.submit_report(
+  _id UUID,
+  _title TEXT,
+  _category report_category,
+  _description TEXT,
+  _location TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _attachments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _missing TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to submit a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.reports (id, title, category, description, location, latitude, longitude, user_id)
+  VALUES (_id, _title, _category, _description, _location, _latitude, _longitude, auth.uid());
+
+  INSERT INTO public.report_attachments (report_id, storage_path, thumbnail_path, media_type, mime_type, size_bytes, position)
+  SELECT _id, a.storage_path, a.thumbnail_path, a.media_type, a.mime_type, a.size_bytes, a.position
+  FROM jsonb_to_recordset(_attachments) AS a(
+    storage_path TEXT,
+    thumbnail_path TEXT,
+    media_type attachment_media_type,
+    mime_type TEXT,
+    size_bytes BIGINT,
+    position SMALLINT
+  );
+
+  -- Every referenced file must already be uploaded to the caller's folder
+  SELECT path INTO _missing
+  FROM public.report_attachments,
+    LATERAL (VALUES (storage_path), (thumbnail_path)) AS paths(path)
+  WHERE report_id = _id
+    AND path IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM storage.objects
+      WHERE objects.bucket_id = 'report-images'
+        AND objects.name = paths.path
+        AND (storage.foldername(objects.name))[1] = auth.uid()::text
+    )
+  LIMIT 1;
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Attachment % has not been uploaded', _missing
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN _id;
+END;
+$$;
+
+-- Lets the client remove its own uploads when submitting fails. Files that
+-- are already attached to a report stay put.
+CREATE POLICY "Users can delete their own unattached uploads"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'report-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.report_attachments
+      WHERE objects.name IN (report_attachments.storage_path, report_attachments.thumbnail_path)
+    )
+  );
+
+-- Files no report points at, e.g. when the browser closed mid-submit. The
+-- grace period keeps uploads of a submission in progress out of the list.
+CREATE OR REPLACE FUNCTION public.list_orphaned_report_media(_older_than INTERVAL DEFAULT '1 day')
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT objects.name
+  FROM storage.objects
+  WHERE objects.bucket_id = 'report-images'
+    AND objects.created_at < now() - _older_than
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.report_attachments
+      WHERE objects.name IN (report_attachments.storage_path, report_attachments.thumbnail_path)
+    )
+  ORDER BY objects.created_at
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_orphaned_report_media(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_orphaned_report_media(INTERVAL) TO service_role;
+
+-- Used to sweep orphaned files nightly; see the cleanup-orphaned-media job
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
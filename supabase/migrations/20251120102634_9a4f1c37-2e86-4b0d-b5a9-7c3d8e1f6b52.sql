@@ -0,0 +1,115 @@
+-- Trigram matching for "similar title" lookups
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX idx_reports_title_trgm ON public.reports USING GIN (title extensions.gin_trgm_ops);
+
+-- Great-circle distance between two points in meters
+CREATE OR REPLACE FUNCTION public.distance_meters(
+  _lat1 DOUBLE PRECISION,
+  _lng1 DOUBLE PRECISION,
+  _lat2 DOUBLE PRECISION,
+  _lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ))
+$$;
+
+-- Open reports that likely describe the same incident: same category,
+-- filed within a few days of _around, and either close by or similarly
+-- titled. Pending reports of other users are included so citizens can
+-- join them instead of filing again, which is why this runs as definer
+-- and only returns what a report card needs.
+CREATE OR REPLACE FUNCTION public.find_similar_reports(
+  _category report_category,
+  _title TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _exclude_id UUID DEFAULT NULL,
+  _around TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  location TEXT,
+  status report_status,
+  created_at TIMESTAMPTZ,
+  distance_meters DOUBLE PRECISION,
+  title_similarity REAL,
+  is_own BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      reports.id,
+      reports.title,
+      reports.location,
+      reports.status,
+      reports.created_at,
+      CASE
+        WHEN _latitude IS NOT NULL AND _longitude IS NOT NULL AND reports.latitude IS NOT NULL
+          THEN public.distance_meters(_latitude, _longitude, reports.latitude, reports.longitude)
+      END AS distance_meters,
+      similarity(reports.title, coalesce(_title, '')) AS title_similarity,
+      reports.user_id = auth.uid() AS is_own
+    FROM public.reports
+    WHERE reports.category = _category
+      AND reports.status IN ('pending', 'verified')
+      AND reports.created_at BETWEEN _around - INTERVAL '3 days' AND _around + INTERVAL '3 days'
+      AND reports.id IS DISTINCT FROM _exclude_id
+  ) AS candidates
+  WHERE candidates.distance_meters <= 500
+    OR candidates.title_similarity >= 0.3
+  ORDER BY
+    coalesce(candidates.distance_meters <= 500, false) AND candidates.title_similarity >= 0.3 DESC,
+    candidates.title_similarity DESC,
+    candidates.distance_meters NULLS LAST
+  LIMIT 5
+$$;
+
+-- Pending duplicates of each given report, for grouping the moderation queue
+CREATE OR REPLACE FUNCTION public.find_report_duplicates(_report_ids UUID[])
+RETURNS TABLE (
+  report_id UUID,
+  id UUID,
+  title TEXT,
+  location TEXT,
+  created_at TIMESTAMPTZ,
+  distance_meters DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'MODERATOR') THEN
+    RAISE EXCEPTION 'Only moderators can look up duplicate reports'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT source.id, candidate.id, candidate.title, candidate.location, candidate.created_at, candidate.distance_meters
+  FROM public.reports AS source
+  CROSS JOIN LATERAL public.find_similar_reports(
+    source.category,
+    source.title,
+    source.latitude,
+    source.longitude,
+    source.id,
+    source.created_at
+  ) AS candidate
+  WHERE source.id = ANY(_report_ids)
+    AND candidate.status = 'pending';
+END;
+$$;
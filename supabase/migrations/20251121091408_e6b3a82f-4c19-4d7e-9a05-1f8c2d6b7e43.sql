@@ -0,0 +1,135 @@
+-- "+1" confirmations from residents affected by the same incident
+CREATE TABLE public.report_confirmations (
+  report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (report_id, user_id)
+);
+
+CREATE INDEX idx_report_confirmations_user_id ON public.report_confirmations (user_id);
+
+-- Whether a user may confirm a report: it has to be open and filed by
+-- someone else. Definer so it can see other users' pending reports.
+CREATE OR REPLACE FUNCTION public.can_confirm_report(_user_id UUID, _report_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.reports
+    WHERE id = _report_id
+      AND user_id <> _user_id
+      AND status IN ('pending', 'verified')
+  )
+$$;
+
+-- Enable RLS on report_confirmations
+ALTER TABLE public.report_confirmations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own confirmations"
+  ON public.report_confirmations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Moderators can view all confirmations"
+  ON public.report_confirmations
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'MODERATOR'));
+
+CREATE POLICY "Users can confirm open reports of others"
+  ON public.report_confirmations
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_confirm_report(auth.uid(), report_id));
+
+CREATE POLICY "Users can remove their own confirmations"
+  ON public.report_confirmations
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Denormalized count of "+1" confirmations, so the moderation queue can
+-- order by it
+ALTER TABLE public.reports
+  ADD COLUMN confirmation_count INTEGER NOT NULL DEFAULT 0 CHECK (confirmation_count >= 0);
+
+CREATE INDEX idx_reports_confirmation_count ON public.reports (confirmation_count DESC, created_at);
+
+CREATE OR REPLACE FUNCTION public.sync_report_confirmation_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.reports
+    SET confirmation_count = confirmation_count + 1
+    WHERE id = NEW.report_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.reports
+  SET confirmation_count = greatest(confirmation_count - 1, 0)
+  WHERE id = OLD.report_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER sync_report_confirmations_count
+  AFTER INSERT OR DELETE ON public.report_confirmations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_report_confirmation_count();
+
+-- Same as before, plus keeping clients from setting the count themselves
+CREATE OR REPLACE FUNCTION public.guard_report_moderation_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Confirmation counts only change through sync_report_confirmation_count,
+  -- which runs one trigger level down
+  IF TG_OP = 'UPDATE'
+    AND auth.uid() IS NOT NULL
+    AND NEW.confirmation_count IS DISTINCT FROM OLD.confirmation_count
+    AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'Confirmation counts are maintained automatically'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'MODERATOR') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending'
+      OR NEW.verified_by IS NOT NULL
+      OR NEW.verified_at IS NOT NULL
+      OR NEW.rejection_reason IS NOT NULL
+      OR NEW.rejection_details IS NOT NULL
+      OR NEW.confirmation_count <> 0 THEN
+      RAISE EXCEPTION 'New reports must be submitted as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT (OLD.status = 'pending' AND NEW.status = 'withdrawn' AND OLD.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.verified_by IS DISTINCT FROM OLD.verified_by
+    OR NEW.verified_at IS DISTINCT FROM OLD.verified_at
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.rejection_details IS DISTINCT FROM OLD.rejection_details THEN
+    RAISE EXCEPTION 'Only moderators can change the moderation details of a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Follow verified reports until the issue is fixed
+ALTER TYPE public.report_status ADD VALUE IF NOT EXISTS 'in_progress';
+ALTER TYPE public.report_status ADD VALUE IF NOT EXISTS 'resolved';
+ALTER TYPE public.report_status ADD VALUE IF NOT EXISTS 'closed';
@@ -0,0 +1,184 @@
+-- Allowed status changes. The moderation UI reads this table too, so it
+-- only ever offers changes the database will accept.
+CREATE TABLE public.report_status_transitions (
+  from_status report_status NOT NULL,
+  to_status report_status NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.report_status_transitions (from_status, to_status) VALUES
+  ('pending', 'verified'),
+  ('pending', 'rejected'),
+  ('pending', 'withdrawn'),
+  ('verified', 'in_progress'),
+  ('verified', 'resolved'),
+  ('verified', 'closed'),
+  ('in_progress', 'resolved'),
+  ('in_progress', 'closed'),
+  ('resolved', 'in_progress'),
+  ('resolved', 'closed');
+
+-- Enable RLS on report_status_transitions
+ALTER TABLE public.report_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions"
+  ON public.report_status_transitions
+  FOR SELECT
+  USING (true);
+
+-- Rejects status changes the state machine does not allow. Who may make
+-- a given change is still up to guard_report_moderation_fields.
+CREATE OR REPLACE FUNCTION public.check_report_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.report_status_transitions
+      WHERE from_status = OLD.status
+        AND to_status = NEW.status
+    ) THEN
+    RAISE EXCEPTION 'A report cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_reports_status_transition
+  BEFORE UPDATE OF status ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_report_status_transition();
+
+-- Only the review itself is stamped; later lifecycle steps keep it
+CREATE OR REPLACE FUNCTION public.prepare_report_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status_note IS NOT DISTINCT FROM OLD.status_note THEN
+      NEW.status_note = NULL;
+    END IF;
+    IF NEW.status IN ('pending', 'withdrawn') THEN
+      NEW.verified_by = NULL;
+      NEW.verified_at = NULL;
+    ELSIF NEW.status IN ('verified', 'rejected') THEN
+      NEW.verified_by = auth.uid();
+      NEW.verified_at = now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Statuses everyone can see: a verified report stays public while it is
+-- being worked on and after it is fixed
+CREATE OR REPLACE FUNCTION public.is_public_status(_status report_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _status IN ('verified', 'in_progress', 'resolved', 'closed')
+$$;
+
+DROP POLICY "Anyone can view verified reports" ON public.reports;
+
+CREATE POLICY "Anyone can view verified reports"
+  ON public.reports
+  FOR SELECT
+  USING (public.is_public_status(status) OR auth.uid() = user_id OR public.has_role(auth.uid(), 'MODERATOR'));
+
+DROP POLICY "Users can view images of visible reports" ON storage.objects;
+
+CREATE POLICY "Users can view images of visible reports"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'report-images'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR public.has_role(auth.uid(), 'MODERATOR')
+      OR EXISTS (
+        SELECT 1
+        FROM public.report_attachments
+        JOIN public.reports ON reports.id = report_attachments.report_id
+        WHERE public.is_public_status(reports.status)
+          AND objects.name IN (report_attachments.storage_path, report_attachments.thumbnail_path)
+      )
+    )
+  );
+
+-- Reports being worked on can still be joined and confirmed
+CREATE OR REPLACE FUNCTION public.find_similar_reports(
+  _category report_category,
+  _title TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _exclude_id UUID DEFAULT NULL,
+  _around TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  location TEXT,
+  status report_status,
+  created_at TIMESTAMPTZ,
+  distance_meters DOUBLE PRECISION,
+  title_similarity REAL,
+  is_own BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      reports.id,
+      reports.title,
+      reports.location,
+      reports.status,
+      reports.created_at,
+      CASE
+        WHEN _latitude IS NOT NULL AND _longitude IS NOT NULL AND reports.latitude IS NOT NULL
+          THEN public.distance_meters(_latitude, _longitude, reports.latitude, reports.longitude)
+      END AS distance_meters,
+      similarity(reports.title, coalesce(_title, '')) AS title_similarity,
+      reports.user_id = auth.uid() AS is_own
+    FROM public.reports
+    WHERE reports.category = _category
+      AND reports.status IN ('pending', 'verified', 'in_progress')
+      AND reports.created_at BETWEEN _around - INTERVAL '3 days' AND _around + INTERVAL '3 days'
+      AND reports.id IS DISTINCT FROM _exclude_id
+  ) AS candidates
+  WHERE candidates.distance_meters <= 500
+    OR candidates.title_similarity >= 0.3
+  ORDER BY
+    coalesce(candidates.distance_meters <= 500, false) AND candidates.title_similarity >= 0.3 DESC,
+    candidates.title_similarity DESC,
+    candidates.distance_meters NULLS LAST
+  LIMIT 5
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_confirm_report(_user_id UUID, _report_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.reports
+    WHERE id = _report_id
+      AND user_id <> _user_id
+      AND status IN ('pending', 'verified', 'in_progress')
+  )
+$$;
@@ -0,0 +1,192 @@
+-- Report categories, managed by moderators instead of an enum that needs
+-- a migration for every change
+CREATE TABLE public.categories (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_]*$'),
+  label TEXT NOT NULL CHECK (length(trim(label)) BETWEEN 1 AND 100),
+  -- Name of a lucide icon, e.g. "zap"
+  icon TEXT NOT NULL DEFAULT 'circle-help',
+  color TEXT NOT NULL DEFAULT '#8b5cf6' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.categories (id, label, icon, color, display_order) VALUES
+  ('power_outage', 'Power Outage', 'zap', '#eab308', 10),
+  ('water_cut', 'Water Cut', 'droplets', '#3b82f6', 20),
+  ('road_damage', 'Road Damage', 'construction', '#f97316', 30),
+  ('other', 'Other', 'circle-help', '#8b5cf6', 1000);
+
+-- Enable RLS on categories
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories"
+  ON public.categories
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Moderators can manage categories"
+  ON public.categories
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'MODERATOR'))
+  WITH CHECK (public.has_role(auth.uid(), 'MODERATOR'));
+
+-- Point reports at the table instead of the enum. Functions taking the enum
+-- are dropped first and recreated with a text parameter below.
+DROP FUNCTION public.submit_report(UUID, TEXT, report_category, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, JSONB);
+DROP FUNCTION public.find_similar_reports(report_category, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, UUID, TIMESTAMPTZ);
+
+ALTER TABLE public.reports
+  ALTER COLUMN category TYPE TEXT USING category::text;
+
+-- Categories in use can be deactivated but not deleted
+ALTER TABLE public.reports
+  ADD CONSTRAINT reports_category_fkey FOREIGN KEY (category)
+  REFERENCES public.categories(id) ON UPDATE CASCADE;
+
+DROP TYPE public.report_category;
+
+-- Only active categories can be picked. Existing reports keep theirs when
+-- a category is retired, as long as it is not changed.
+CREATE OR REPLACE FUNCTION public.check_report_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.category IS DISTINCT FROM OLD.category)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.categories
+      WHERE id = NEW.category
+        AND is_active
+    ) THEN
+    RAISE EXCEPTION 'Category % is not available for new reports', NEW.category
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_reports_category
+  BEFORE INSERT OR UPDATE OF category ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_report_category();
+
+CREATE OR REPLACE FUNCTION public.submit_report(
+  _id UUID,
+  _title TEXT,
+  _category TEXT,
+  _description TEXT,
+  _location TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _attachments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _missing TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to submit a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.reports (id, title, category, description, location, latitude, longitude, user_id)
+  VALUES (_id, _title, _category, _description, _location, _latitude, _longitude, auth.uid());
+
+  INSERT INTO public.report_attachments (report_id, storage_path, thumbnail_path, media_type, mime_type, size_bytes, position)
+  SELECT _id, a.storage_path, a.thumbnail_path, a.media_type, a.mime_type, a.size_bytes, a.position
+  FROM jsonb_to_recordset(_attachments) AS a(
+    storage_path TEXT,
+    thumbnail_path TEXT,
+    media_type attachment_media_type,
+    mime_type TEXT,
+    size_bytes BIGINT,
+    position SMALLINT
+  );
+
+  -- Every referenced file must already be uploaded to the caller's folder
+  SELECT path INTO _missing
+  FROM public.report_attachments,
+    LATERAL (VALUES (storage_path), (thumbnail_path)) AS paths(path)
+  WHERE report_id = _id
+    AND path IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM storage.objects
+      WHERE objects.bucket_id = 'report-images'
+        AND objects.name = paths.path
+        AND (storage.foldername(objects.name))[1] = auth.uid()::text
+    )
+  LIMIT 1;
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Attachment % has not been uploaded', _missing
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_similar_reports(
+  _category TEXT,
+  _title TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _exclude_id UUID DEFAULT NULL,
+  _around TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  location TEXT,
+  status report_status,
+  created_at TIMESTAMPTZ,
+  distance_meters DOUBLE PRECISION,
+  title_similarity REAL,
+  is_own BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      reports.id,
+      reports.title,
+      reports.location,
+      reports.status,
+      reports.created_at,
+      CASE
+        WHEN _latitude IS NOT NULL AND _longitude IS NOT NULL AND reports.latitude IS NOT NULL
+          THEN public.distance_meters(_latitude, _longitude, reports.latitude, reports.longitude)
+      END AS distance_meters,
+      similarity(reports.title, coalesce(_title, '')) AS title_similarity,
+      reports.user_id = auth.uid() AS is_own
+    FROM public.reports
+    WHERE reports.category = _category
+      AND reports.status IN ('pending', 'verified', 'in_progress')
+      AND reports.created_at BETWEEN _around - INTERVAL '3 days' AND _around + INTERVAL '3 days'
+      AND reports.id IS DISTINCT FROM _exclude_id
+  ) AS candidates
+  WHERE candidates.distance_meters <= 500
+    OR candidates.title_similarity >= 0.3
+  ORDER BY
+    coalesce(candidates.distance_meters <= 500, false) AND candidates.title_similarity >= 0.3 DESC,
+    candidates.title_similarity DESC,
+    candidates.distance_meters NULLS LAST
+  LIMIT 5
+$$;
@@ -0,0 +1,163 @@
+-- Extra questions asked per category. Each entry looks like
+-- {"key": "scope", "label": "...", "type": "text" | "number" | "boolean" | "select",
+--  "required": true, "options": ["..."]}; options only apply to selects.
+ALTER TABLE public.categories
+  ADD COLUMN fields JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(fields) = 'array');
+
+-- Answers to those questions, keyed by field key
+ALTER TABLE public.reports
+  ADD COLUMN details JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(details) = 'object');
+
+UPDATE public.categories
+SET fields = '[
+  {"key": "scope", "label": "How widespread is the outage?", "type": "select", "required": true,
+   "options": ["Just my home", "My building", "The whole street", "The whole neighbourhood"]}
+]'::jsonb
+WHERE id = 'power_outage';
+
+UPDATE public.categories
+SET fields = '[
+  {"key": "size", "label": "How big is the damage?", "type": "select", "required": false,
+   "options": ["Small (under 30 cm)", "Medium (30 to 60 cm)", "Large (over 60 cm)"]},
+  {"key": "blocking_traffic", "label": "Is it blocking traffic?", "type": "boolean", "required": true}
+]'::jsonb
+WHERE id = 'road_damage';
+
+-- Checks details against the fields of the report's category, mirroring the
+-- schema the form builds in src/lib/categories.ts. Like the moderation guard,
+-- requests without a signed-in user are trusted.
+CREATE OR REPLACE FUNCTION public.check_report_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _field JSONB;
+  _value JSONB;
+  _unknown TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.details IS NOT DISTINCT FROM OLD.details
+    AND NEW.category IS NOT DISTINCT FROM OLD.category THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _field IN
+    SELECT jsonb_array_elements(fields)
+    FROM public.categories
+    WHERE id = NEW.category
+  LOOP
+    _value = NEW.details -> (_field ->> 'key');
+
+    IF _value IS NULL OR _value = 'null'::jsonb OR _value = '""'::jsonb THEN
+      IF coalesce((_field ->> 'required')::boolean, false) THEN
+        RAISE EXCEPTION '% is required', _field ->> 'label'
+          USING ERRCODE = 'check_violation';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF jsonb_typeof(_value) <> (
+        CASE _field ->> 'type'
+          WHEN 'number' THEN 'number'
+          WHEN 'boolean' THEN 'boolean'
+          ELSE 'string'
+        END
+      )
+      OR (_field ->> 'type' = 'select' AND NOT (_field -> 'options') ? (_value #>> '{}')) THEN
+      RAISE EXCEPTION 'Invalid answer for %', _field ->> 'label'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  SELECT key INTO _unknown
+  FROM jsonb_object_keys(NEW.details) AS key
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.categories, jsonb_array_elements(categories.fields) AS field
+    WHERE categories.id = NEW.category
+      AND field ->> 'key' = key
+  )
+  LIMIT 1;
+
+  IF _unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown detail %', _unknown
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_reports_details
+  BEFORE INSERT OR UPDATE OF category, details ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_report_details();
+
+-- Submitting now takes the category details as well
+DROP FUNCTION public.submit_report(UUID, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, JSONB);
+
+CREATE OR REPLACE FUNCTION public.submit_report(
+  _id UUID,
+  _title TEXT,
+  _category TEXT,
+  _description TEXT,
+  _location TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _attachments JSONB DEFAULT '[]'::jsonb,
+  _details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _missing TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to submit a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.reports (id, title, category, description, location, latitude, longitude, details, user_id)
+  VALUES (_id, _title, _category, _description, _location, _latitude, _longitude, _details, auth.uid());
+
+  INSERT INTO public.report_attachments (report_id, storage_path, thumbnail_path, media_type, mime_type, size_bytes, position)
+  SELECT _id, a.storage_path, a.thumbnail_path, a.media_type, a.mime_type, a.size_bytes, a.position
+  FROM jsonb_to_recordset(_attachments) AS a(
+    storage_path TEXT,
+    thumbnail_path TEXT,
+    media_type attachment_media_type,
+    mime_type TEXT,
+    size_bytes BIGINT,
+    position SMALLINT
+  );
+
+  -- Every referenced file must already be uploaded to the caller's folder
+  SELECT path INTO _missing
+  FROM public.report_attachments,
+    LATERAL (VALUES (storage_path), (thumbnail_path)) AS paths(path)
+  WHERE report_id = _id
+    AND path IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM storage.objects
+      WHERE objects.bucket_id = 'report-images'
+        AND objects.name = paths.path
+        AND (storage.foldername(objects.name))[1] = auth.uid()::text
+    )
+  LIMIT 1;
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Attachment % has not been uploaded', _missing
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN _id;
+END;
+$$;
@@ -0,0 +1,248 @@
+-- How serious the reporter thinks the problem is
+CREATE TYPE public.report_severity AS ENUM ('low', 'medium', 'high', 'critical');
+
+ALTER TABLE public.reports
+  ADD COLUMN severity report_severity NOT NULL DEFAULT 'medium',
+  ADD COLUMN priority_score SMALLINT NOT NULL DEFAULT 0,
+  ADD COLUMN priority_override SMALLINT CHECK (priority_override BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN public.reports.priority_score IS
+  'Maintained by set_report_priority_score; equals priority_override when a moderator set one';
+
+-- Some categories matter more than others at the same severity
+ALTER TABLE public.categories
+  ADD COLUMN priority_weight NUMERIC(3, 2) NOT NULL DEFAULT 1 CHECK (priority_weight BETWEEN 0.5 AND 2);
+
+UPDATE public.categories SET priority_weight = 1.25 WHERE id IN ('power_outage', 'water_cut');
+UPDATE public.categories SET priority_weight = 0.75 WHERE id = 'other';
+
+CREATE INDEX idx_reports_priority_score ON public.reports (priority_score DESC, created_at);
+
+-- Scores run from 0 to 100: severity gives up to 55 points, confirmations
+-- up to 25 and age up to 20, scaled by the category's weight
+CREATE OR REPLACE FUNCTION public.calculate_priority_score(
+  _severity report_severity,
+  _confirmation_count INTEGER,
+  _created_at TIMESTAMPTZ,
+  _category TEXT
+)
+RETURNS SMALLINT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT least(
+    100,
+    round(
+      (
+        CASE _severity
+          WHEN 'low' THEN 10
+          WHEN 'medium' THEN 25
+          WHEN 'high' THEN 40
+          WHEN 'critical' THEN 55
+        END
+        + least(_confirmation_count * 4, 25)
+        + least(extract(day FROM now() - _created_at)::INTEGER * 2, 20)
+      ) * coalesce((SELECT priority_weight FROM public.categories WHERE id = _category), 1)
+    )
+  )::SMALLINT
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_report_priority_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.priority_score = coalesce(
+    NEW.priority_override,
+    public.calculate_priority_score(NEW.severity, NEW.confirmation_count, NEW.created_at, NEW.category)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_reports_priority_score
+  BEFORE INSERT OR UPDATE OF severity, confirmation_count, priority_override, category ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_report_priority_score();
+
+-- Age keeps raising the score of open reports, so recalculate them
+-- periodically; also used when a category's weight changes
+CREATE OR REPLACE FUNCTION public.refresh_report_priority_scores(_category TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  UPDATE public.reports
+  SET priority_score = public.calculate_priority_score(severity, confirmation_count, created_at, category)
+  WHERE priority_override IS NULL
+    AND status IN ('pending', 'verified', 'in_progress')
+    AND (_category IS NULL OR category = _category)
+    AND priority_score IS DISTINCT FROM
+      public.calculate_priority_score(severity, confirmation_count, created_at, category);
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_report_priority_scores(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_category_priority_scores()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_report_priority_scores(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_categories_priority_scores
+  AFTER UPDATE OF priority_weight ON public.categories
+  FOR EACH ROW
+  WHEN (NEW.priority_weight IS DISTINCT FROM OLD.priority_weight)
+  EXECUTE FUNCTION public.refresh_category_priority_scores();
+
+UPDATE public.reports
+SET priority_score = public.calculate_priority_score(severity, confirmation_count, created_at, category);
+
+SELECT cron.schedule(
+  'refresh-report-priority-scores',
+  '15 * * * *',
+  $$ SELECT public.refresh_report_priority_scores() $$
+);
+
+-- Same as before, plus the priority fields: the score is always derived,
+-- and only moderators can override it
+CREATE OR REPLACE FUNCTION public.guard_report_moderation_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Confirmation counts only change through sync_report_confirmation_count,
+  -- which runs one trigger level down
+  IF TG_OP = 'UPDATE'
+    AND auth.uid() IS NOT NULL
+    AND NEW.confirmation_count IS DISTINCT FROM OLD.confirmation_count
+    AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'Confirmation counts are maintained automatically'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND auth.uid() IS NOT NULL
+    AND NEW.priority_score IS DISTINCT FROM OLD.priority_score
+    AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'Priority scores are maintained automatically'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'MODERATOR') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending'
+      OR NEW.verified_by IS NOT NULL
+      OR NEW.verified_at IS NOT NULL
+      OR NEW.rejection_reason IS NOT NULL
+      OR NEW.rejection_details IS NOT NULL
+      OR NEW.confirmation_count <> 0
+      OR NEW.priority_override IS NOT NULL THEN
+      RAISE EXCEPTION 'New reports must be submitted as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT (OLD.status = 'pending' AND NEW.status = 'withdrawn' AND OLD.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.verified_by IS DISTINCT FROM OLD.verified_by
+    OR NEW.verified_at IS DISTINCT FROM OLD.verified_at
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.rejection_details IS DISTINCT FROM OLD.rejection_details
+    OR NEW.priority_override IS DISTINCT FROM OLD.priority_override THEN
+    RAISE EXCEPTION 'Only moderators can change the moderation details of a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Submitting now takes the reporter's severity as well
+DROP FUNCTION public.submit_report(UUID, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.submit_report(
+  _id UUID,
+  _title TEXT,
+  _category TEXT,
+  _description TEXT,
+  _location TEXT DEFAULT NULL,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _attachments JSONB DEFAULT '[]'::jsonb,
+  _details JSONB DEFAULT '{}'::jsonb,
+  _severity report_severity DEFAULT 'medium'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _missing TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to submit a report'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.reports (id, title, category, description, location, latitude, longitude, details, severity, user_id)
+  VALUES (_id, _title, _category, _description, _location, _latitude, _longitude, _details, _severity, auth.uid());
+
+  INSERT INTO public.report_attachments (report_id, storage_path, thumbnail_path, media_type, mime_type, size_bytes, position)
+  SELECT _id, a.storage_path, a.thumbnail_path, a.media_type, a.mime_type, a.size_bytes, a.position
+  FROM jsonb_to_recordset(_attachments) AS a(
+    storage_path TEXT,
+    thumbnail_path TEXT,
+    media_type attachment_media_type,
+    mime_type TEXT,
+    size_bytes BIGINT,
+    position SMALLINT
+  );
+
+  -- Every referenced file must already be uploaded to the caller's folder
+  SELECT path INTO _missing
+  FROM public.report_attachments,
+    LATERAL (VALUES (storage_path), (thumbnail_path)) AS paths(path)
+  WHERE report_id = _id
+    AND path IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM storage.objects
+      WHERE objects.bucket_id = 'report-images'
+        AND objects.name = paths.path
+        AND (storage.foldername(objects.name))[1] = auth.uid()::text
+    )
+  LIMIT 1;
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Attachment % has not been uploaded', _missing
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN _id;
+END;
+$$;
@@ -0,0 +1,2 @@
+-- Admins manage who else gets elevated roles
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'ADMIN';
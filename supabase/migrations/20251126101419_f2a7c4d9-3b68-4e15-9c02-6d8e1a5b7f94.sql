@@ -0,0 +1,133 @@
+-- Audit trail of every role granted or revoked, whoever made the change
+CREATE TABLE public.user_role_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role app_role NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('granted', 'revoked')),
+  -- NULL when the change came from signup or a migration
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_user_role_changes_user_id ON public.user_role_changes (user_id, created_at DESC);
+
+ALTER TABLE public.user_role_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view role changes"
+  ON public.user_role_changes
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'ADMIN'));
+
+CREATE POLICY "Admins can view all roles"
+  ON public.user_roles
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'ADMIN'));
+
+-- Recorded by a trigger so that changes made outside set_user_role, e.g.
+-- from the SQL editor, are audited too
+CREATE OR REPLACE FUNCTION public.audit_user_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.user_role_changes (user_id, role, action, changed_by)
+    VALUES (NEW.user_id, NEW.role, 'granted', auth.uid());
+    RETURN NEW;
+  END IF;
+
+  -- Deleting the account removes its roles and its history alike
+  IF EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    INSERT INTO public.user_role_changes (user_id, role, action, changed_by)
+    VALUES (OLD.user_id, OLD.role, 'revoked', auth.uid());
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER audit_user_roles_changes
+  AFTER INSERT OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_user_role_change();
+
+-- Grants or revokes a role on behalf of an admin. Only MODERATOR can be
+-- managed here; ADMIN is granted from the SQL editor, e.g.
+--   INSERT INTO public.user_roles (user_id, role)
+--   SELECT id, 'ADMIN' FROM auth.users WHERE email = 'admin@example.com';
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role app_role, _granted BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'ADMIN') THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _role <> 'MODERATOR' THEN
+    RAISE EXCEPTION 'The % role cannot be changed here', _role
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = _user_id) THEN
+    RAISE EXCEPTION 'User % does not exist', _user_id
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF _granted THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, _role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  ELSE
+    DELETE FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role;
+  END IF;
+END;
+$$;
+
+-- Users matching an email search, for the admin console; auth.users is not
+-- exposed to clients
+CREATE OR REPLACE FUNCTION public.list_users(_search TEXT DEFAULT NULL, _limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  created_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ,
+  roles app_role[],
+  report_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'ADMIN') THEN
+    RAISE EXCEPTION 'Only admins can list users'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    users.id,
+    users.email::TEXT,
+    users.created_at,
+    users.last_sign_in_at,
+    coalesce(
+      (SELECT array_agg(user_roles.role ORDER BY user_roles.role) FROM public.user_roles WHERE user_roles.user_id = users.id),
+      '{}'
+    ),
+    (SELECT count(*) FROM public.reports WHERE reports.user_id = users.id)
+  FROM auth.users
+  WHERE _search IS NULL
+    OR _search = ''
+    OR users.email ILIKE '%' || _search || '%'
+  ORDER BY users.email
+  LIMIT least(_limit, 200);
+END;
+$$;
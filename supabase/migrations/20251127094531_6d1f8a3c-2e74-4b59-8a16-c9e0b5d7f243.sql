@@ -0,0 +1,6 @@
+-- Roles now add up instead of replacing each other, so every account keeps
+-- USER; moderators seeded by hand may only have MODERATOR
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'USER'
+FROM auth.users
+ON CONFLICT (user_id, role) DO NOTHING;
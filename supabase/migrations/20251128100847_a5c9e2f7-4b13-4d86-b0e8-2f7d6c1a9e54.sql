@@ -0,0 +1,57 @@
+-- Daily series for the dashboard charts. Both run as the caller, so they
+-- only count the reports the caller can see, and bucket days in the
+-- caller's time zone.
+
+-- Reports submitted per day and category
+CREATE OR REPLACE FUNCTION public.get_report_trends(
+  _from DATE,
+  _to DATE,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  category TEXT,
+  submitted BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (reports.created_at AT TIME ZONE _time_zone)::DATE AS day, reports.category, count(*)
+  FROM public.reports
+  WHERE reports.created_at >= _from::TIMESTAMP AT TIME ZONE _time_zone
+    AND reports.created_at < (_to + 1)::TIMESTAMP AT TIME ZONE _time_zone
+  GROUP BY 1, 2
+  ORDER BY 1, 2
+$$;
+
+-- Reviews per day by review date: how many were verified rather than
+-- rejected, and the median hours from submission to review
+CREATE OR REPLACE FUNCTION public.get_moderation_trends(
+  _from DATE,
+  _to DATE,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  reviewed BIGINT,
+  verified BIGINT,
+  median_hours DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (reports.verified_at AT TIME ZONE _time_zone)::DATE AS day,
+    count(*),
+    count(*) FILTER (WHERE reports.status <> 'rejected'),
+    percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY extract(epoch FROM reports.verified_at - reports.created_at) / 3600
+    )
+  FROM public.reports
+  WHERE reports.verified_at >= _from::TIMESTAMP AT TIME ZONE _time_zone
+    AND reports.verified_at < (_to + 1)::TIMESTAMP AT TIME ZONE _time_zone
+  GROUP BY 1
+  ORDER BY 1
+$$;
@@ -0,0 +1,85 @@
+-- Report counts per UTC day, category and status. Kept up to date row by
+-- row by track_report_daily_stats, so reading the totals never scans
+-- reports.
+CREATE TABLE public.report_daily_stats (
+  day DATE NOT NULL,
+  category TEXT NOT NULL REFERENCES public.categories(id) ON UPDATE CASCADE,
+  status report_status NOT NULL,
+  report_count INTEGER NOT NULL DEFAULT 0 CHECK (report_count >= 0),
+  PRIMARY KEY (day, category, status)
+);
+
+ALTER TABLE public.report_daily_stats ENABLE ROW LEVEL SECURITY;
+
+-- Only counts, so everyone signed in sees the same totals
+CREATE POLICY "Signed-in users can view report statistics"
+  ON public.report_daily_stats
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.report_daily_stats (day, category, status, report_count)
+SELECT (created_at AT TIME ZONE 'UTC')::DATE, category, status, count(*)
+FROM public.reports
+GROUP BY 1, 2, 3;
+
+CREATE OR REPLACE FUNCTION public.track_report_daily_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.report_daily_stats
+    SET report_count = report_count - 1
+    WHERE day = (OLD.created_at AT TIME ZONE 'UTC')::DATE
+      AND category = OLD.category
+      AND status = OLD.status;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    INSERT INTO public.report_daily_stats (day, category, status, report_count)
+    VALUES ((NEW.created_at AT TIME ZONE 'UTC')::DATE, NEW.category, NEW.status, 1)
+    ON CONFLICT (day, category, status)
+    DO UPDATE SET report_count = report_daily_stats.report_count + 1;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER track_reports_daily_stats
+  AFTER INSERT OR DELETE OR UPDATE OF status, category ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_report_daily_stats();
+
+-- Totals over an optional range of days, grouped by day and/or category
+-- as asked; the status is always part of the grouping
+CREATE OR REPLACE FUNCTION public.get_report_stats(
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL,
+  _by_day BOOLEAN DEFAULT true,
+  _by_category BOOLEAN DEFAULT true
+)
+RETURNS TABLE (
+  day DATE,
+  category TEXT,
+  status report_status,
+  report_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN _by_day THEN stats.day END,
+    CASE WHEN _by_category THEN stats.category END,
+    stats.status,
+    sum(stats.report_count)::BIGINT
+  FROM public.report_daily_stats AS stats
+  WHERE (_from IS NULL OR stats.day >= _from)
+    AND (_to IS NULL OR stats.day <= _to)
+    AND stats.report_count > 0
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3
+$$;
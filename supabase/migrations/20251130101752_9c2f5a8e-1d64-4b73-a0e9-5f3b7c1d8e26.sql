@@ -0,0 +1,38 @@
+-- Publicly visible reports without anything that identifies the reporter
+-- or the moderator, for the unauthenticated transparency portal. Filters
+-- like the reports SELECT policy, so the view can bypass it safely.
+CREATE VIEW public.public_reports
+WITH (security_barrier = true)
+AS
+SELECT
+  id,
+  title,
+  category,
+  description,
+  details,
+  location,
+  latitude,
+  longitude,
+  status,
+  severity,
+  confirmation_count,
+  created_at,
+  verified_at,
+  updated_at
+FROM public.reports
+WHERE public.is_public_status(status);
+
+GRANT SELECT ON public.public_reports TO anon, authenticated;
+
+-- Visitors read reports through the view only. They keep the two columns
+-- that the attachment and storage policies look up.
+REVOKE SELECT ON public.reports FROM anon;
+GRANT SELECT (id, status) ON public.reports TO anon;
+
+-- Totals of public reports are public too
+DROP POLICY "Signed-in users can view report statistics" ON public.report_daily_stats;
+
+CREATE POLICY "Anyone can view statistics of public reports"
+  ON public.report_daily_stats
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL OR public.is_public_status(status));
@@ -0,0 +1,15 @@
+-- Whether a report exists at all, regardless of who can see it. Lets the
+-- report page tell a report the caller may not view from a wrong link,
+-- without revealing anything else about it.
+CREATE OR REPLACE FUNCTION public.report_exists(_report_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.reports WHERE id = _report_id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.report_exists(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_exists(UUID) TO authenticated;
@@ -0,0 +1,95 @@
+-- Discussion between reporters and moderators. Comments are private to the
+-- report's author and moderators unless marked public, and public comments
+-- only show while the report itself is public.
+CREATE TABLE public.report_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.report_comments(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  is_public BOOLEAN NOT NULL DEFAULT false,
+  -- Set by prepare_report_comment, since other users cannot read roles
+  from_moderator BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_report_comments_report_id ON public.report_comments (report_id, created_at);
+CREATE INDEX idx_report_comments_parent_id ON public.report_comments (parent_id);
+
+ALTER TABLE public.report_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors and moderators can view report comments"
+  ON public.report_comments
+  FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'MODERATOR')
+    OR auth.uid() = author_id
+    OR EXISTS (
+      SELECT 1 FROM public.reports
+      WHERE reports.id = report_comments.report_id AND reports.user_id = auth.uid()
+    )
+    OR (
+      is_public
+      AND auth.uid() IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM public.reports
+        WHERE reports.id = report_comments.report_id AND public.is_public_status(reports.status)
+      )
+    )
+  );
+
+-- Anyone signed in may join the public thread of a public report
+CREATE POLICY "Authors and moderators can comment on reports"
+  ON public.report_comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_id
+    AND (
+      public.has_role(auth.uid(), 'MODERATOR')
+      OR EXISTS (
+        SELECT 1 FROM public.reports
+        WHERE reports.id = report_comments.report_id AND reports.user_id = auth.uid()
+      )
+      OR (
+        is_public
+        AND EXISTS (
+          SELECT 1 FROM public.reports
+          WHERE reports.id = report_comments.report_id AND public.is_public_status(reports.status)
+        )
+      )
+    )
+  );
+
+-- Replies stay on the same report and inherit their thread's visibility,
+-- so a public reply never hangs off a comment its readers cannot see
+CREATE OR REPLACE FUNCTION public.prepare_report_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.report_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO _parent FROM public.report_comments WHERE id = NEW.parent_id;
+
+    IF _parent.report_id IS DISTINCT FROM NEW.report_id THEN
+      RAISE EXCEPTION 'Replies must be on the same report as their comment'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.is_public := _parent.is_public;
+  END IF;
+
+  NEW.from_moderator := public.has_role(NEW.author_id, 'MODERATOR');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_report_comments
+  BEFORE INSERT ON public.report_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_report_comment();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.report_comments;
@@ -0,0 +1,12 @@
+-- Reports decided before verified_at was stamped got no decision event in
+-- the audit trail backfill. Give them one, timed by their last update.
+INSERT INTO public.report_events (report_id, actor_id, from_status, to_status, created_at)
+SELECT reports.id, reports.verified_by, 'pending', reports.status, reports.updated_at
+FROM public.reports
+WHERE reports.status <> 'pending'
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.report_events
+    WHERE report_events.report_id = reports.id
+      AND report_events.from_status IS NOT NULL
+  );
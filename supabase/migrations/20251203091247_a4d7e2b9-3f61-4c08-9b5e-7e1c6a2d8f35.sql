@@ -0,0 +1,26 @@
+-- Attachment rows may only name files in the caller's folder for that
+-- report. Otherwise a row could point at someone else's upload and expose
+-- it once the report becomes public.
+DROP POLICY "Users can attach files to their own pending reports" ON public.report_attachments;
+
+CREATE POLICY "Users can attach files to their own pending reports"
+  ON public.report_attachments
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.reports
+      WHERE reports.id = report_attachments.report_id
+        AND reports.user_id = auth.uid()
+        AND reports.status = 'pending'
+    )
+    AND (storage.foldername(storage_path))[1] = auth.uid()::text
+    AND (storage.foldername(storage_path))[2] = report_id::text
+    AND (
+      thumbnail_path IS NULL
+      OR (
+        (storage.foldername(thumbnail_path))[1] = auth.uid()::text
+        AND (storage.foldername(thumbnail_path))[2] = report_id::text
+      )
+    )
+  );
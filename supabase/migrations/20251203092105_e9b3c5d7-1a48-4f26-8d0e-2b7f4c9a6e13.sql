@@ -0,0 +1,38 @@
+-- Whether a stored file is media of a public report, uploaded by the
+-- report's author. Checking the folder keeps an attachment row that names
+-- someone else's file from exposing it. Files at the bucket root predate
+-- per-user folders; clients can no longer attach those. Definer, so anon
+-- callers need no access to reports.user_id.
+CREATE OR REPLACE FUNCTION public.is_public_report_media(_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.report_attachments
+    JOIN public.reports ON reports.id = report_attachments.report_id
+    WHERE public.is_public_status(reports.status)
+      AND _name IN (report_attachments.storage_path, report_attachments.thumbnail_path)
+      AND (
+        (storage.foldername(_name))[1] = reports.user_id::text
+        OR cardinality(storage.foldername(_name)) = 0
+      )
+  )
+$$;
+
+DROP POLICY "Users can view images of visible reports" ON storage.objects;
+
+CREATE POLICY "Users can view images of visible reports"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'report-images'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR public.has_role(auth.uid(), 'MODERATOR')
+      OR public.is_public_report_media(name)
+    )
+  );
@@ -0,0 +1,23 @@
+-- Sweep orphaned files nightly through the cleanup-orphaned-media edge
+-- function; objects have to be removed through the Storage API.
+--
+-- The project URL and the service role key come from Vault, so each
+-- environment calls its own function. Create them once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- Scheduling under the existing job name replaces the earlier job.
+SELECT cron.schedule(
+  'cleanup-orphaned-media',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/cleanup-orphaned-media',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,72 @@
+-- find_similar_reports runs as definer so residents see likely duplicates
+-- they could not otherwise read. Only moderators and the report's author
+-- get the full row; everyone else gets a distance rounded up to 100 m, and
+-- for someone else's pending report only its location text.
+CREATE OR REPLACE FUNCTION public.find_similar_reports(
+  _category TEXT,
+  _title TEXT,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL,
+  _exclude_id UUID DEFAULT NULL,
+  _around TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  location TEXT,
+  status report_status,
+  created_at TIMESTAMPTZ,
+  distance_meters DOUBLE PRECISION,
+  title_similarity REAL,
+  is_own BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    candidates.id,
+    CASE WHEN candidates.full_access OR candidates.status <> 'pending' THEN candidates.title END,
+    candidates.location,
+    candidates.status,
+    candidates.created_at,
+    CASE
+      WHEN candidates.full_access THEN candidates.distance_meters
+      WHEN candidates.status <> 'pending' THEN ceil(candidates.distance_meters / 100) * 100
+    END,
+    CASE WHEN candidates.full_access OR candidates.status <> 'pending' THEN candidates.title_similarity END,
+    candidates.is_own
+  FROM (
+    SELECT
+      reports.id,
+      reports.title,
+      reports.location,
+      reports.status,
+      reports.created_at,
+      CASE
+        WHEN _latitude IS NOT NULL AND _longitude IS NOT NULL AND reports.latitude IS NOT NULL
+          THEN public.distance_meters(_latitude, _longitude, reports.latitude, reports.longitude)
+      END AS distance_meters,
+      similarity(reports.title, coalesce(_title, '')) AS title_similarity,
+      reports.user_id = auth.uid() AS is_own,
+      reports.user_id = auth.uid() OR public.has_role(auth.uid(), 'MODERATOR') AS full_access
+    FROM public.reports
+    WHERE reports.category = _category
+      AND reports.status IN ('pending', 'verified', 'in_progress')
+      AND reports.created_at BETWEEN _around - INTERVAL '3 days' AND _around + INTERVAL '3 days'
+      AND reports.id IS DISTINCT FROM _exclude_id
+  ) AS candidates
+  WHERE candidates.distance_meters <= 500
+    OR candidates.title_similarity >= 0.3
+  ORDER BY
+    coalesce(candidates.distance_meters <= 500, false) AND candidates.title_similarity >= 0.3 DESC,
+    candidates.title_similarity DESC,
+    candidates.distance_meters NULLS LAST
+  LIMIT 5
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_similar_reports(TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, UUID, TIMESTAMPTZ)
+  FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_similar_reports(TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, UUID, TIMESTAMPTZ)
+  TO authenticated;
@@ -0,0 +1,27 @@
+-- Rescoring is bookkeeping, not an edit: leave updated_at alone when only
+-- derived columns change, so "Recently updated" and "Last updated" keep
+-- meaning someone changed the report
+CREATE OR REPLACE FUNCTION public.update_report_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  -- search_vector is generated, so it is not computed yet in NEW
+  _derived TEXT[] := ARRAY['priority_score', 'search_vector', 'updated_at'];
+BEGIN
+  IF to_jsonb(NEW) - _derived = to_jsonb(OLD) - _derived THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER update_reports_updated_at ON public.reports;
+
+CREATE TRIGGER update_reports_updated_at
+  BEFORE UPDATE ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_report_updated_at();
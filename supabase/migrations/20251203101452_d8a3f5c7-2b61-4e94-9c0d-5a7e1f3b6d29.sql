@@ -0,0 +1,19 @@
+-- Confirmations are not edits either: a "+1" should not move a report to
+-- the top of "Recently updated"
+CREATE OR REPLACE FUNCTION public.update_report_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  -- search_vector is generated, so it is not computed yet in NEW
+  _derived TEXT[] := ARRAY['confirmation_count', 'priority_score', 'search_vector', 'updated_at'];
+BEGIN
+  IF to_jsonb(NEW) - _derived = to_jsonb(OLD) - _derived THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
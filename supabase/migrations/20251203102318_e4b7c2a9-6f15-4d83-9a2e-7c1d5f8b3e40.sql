@@ -0,0 +1,62 @@
+-- The dashboard charts describe the whole service, not just the reports
+-- the caller can see: run both trend functions as their owner. They only
+-- return daily counts and medians, never individual reports, so they stay
+-- limited to signed-in users.
+
+CREATE OR REPLACE FUNCTION public.get_report_trends(
+  _from DATE,
+  _to DATE,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  category TEXT,
+  submitted BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (reports.created_at AT TIME ZONE _time_zone)::DATE AS day, reports.category, count(*)
+  FROM public.reports
+  WHERE reports.created_at >= _from::TIMESTAMP AT TIME ZONE _time_zone
+    AND reports.created_at < (_to + 1)::TIMESTAMP AT TIME ZONE _time_zone
+  GROUP BY 1, 2
+  ORDER BY 1, 2
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_moderation_trends(
+  _from DATE,
+  _to DATE,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  reviewed BIGINT,
+  verified BIGINT,
+  median_hours DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (reports.verified_at AT TIME ZONE _time_zone)::DATE AS day,
+    count(*),
+    count(*) FILTER (WHERE reports.status <> 'rejected'),
+    percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY extract(epoch FROM reports.verified_at - reports.created_at) / 3600
+    )
+  FROM public.reports
+  WHERE reports.verified_at >= _from::TIMESTAMP AT TIME ZONE _time_zone
+    AND reports.verified_at < (_to + 1)::TIMESTAMP AT TIME ZONE _time_zone
+  GROUP BY 1
+  ORDER BY 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_report_trends(DATE, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_report_trends(DATE, DATE, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_moderation_trends(DATE, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_moderation_trends(DATE, DATE, TEXT) TO authenticated;
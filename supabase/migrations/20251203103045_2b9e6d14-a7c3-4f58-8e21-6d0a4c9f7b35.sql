@@ -0,0 +1,110 @@
+-- Count critical reports alongside the totals, so the dashboard reads every
+-- number from report_daily_stats instead of counting the reports the caller
+-- can see. Matches CRITICAL_PRIORITY_SCORE in src/lib/reports.ts.
+CREATE OR REPLACE FUNCTION public.is_critical_priority(_score SMALLINT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _score >= 70
+$$;
+
+ALTER TABLE public.report_daily_stats
+  ADD COLUMN critical_count INTEGER NOT NULL DEFAULT 0 CHECK (critical_count >= 0);
+
+UPDATE public.report_daily_stats AS stats
+SET critical_count = counts.critical_count
+FROM (
+  SELECT (created_at AT TIME ZONE 'UTC')::DATE AS day, category, status, count(*) AS critical_count
+  FROM public.reports
+  WHERE public.is_critical_priority(priority_score)
+  GROUP BY 1, 2, 3
+) AS counts
+WHERE stats.day = counts.day
+  AND stats.category = counts.category
+  AND stats.status = counts.status;
+
+CREATE OR REPLACE FUNCTION public.track_report_daily_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Scores also change through set_report_priority_score, which UPDATE OF
+  -- cannot see, so every update comes through here; most change nothing
+  IF TG_OP = 'UPDATE'
+    AND NEW.status = OLD.status
+    AND NEW.category = OLD.category
+    AND public.is_critical_priority(NEW.priority_score) = public.is_critical_priority(OLD.priority_score)
+  THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.report_daily_stats
+    SET report_count = report_count - 1,
+      critical_count = critical_count - public.is_critical_priority(OLD.priority_score)::INTEGER
+    WHERE day = (OLD.created_at AT TIME ZONE 'UTC')::DATE
+      AND category = OLD.category
+      AND status = OLD.status;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    INSERT INTO public.report_daily_stats (day, category, status, report_count, critical_count)
+    VALUES (
+      (NEW.created_at AT TIME ZONE 'UTC')::DATE,
+      NEW.category,
+      NEW.status,
+      1,
+      public.is_critical_priority(NEW.priority_score)::INTEGER
+    )
+    ON CONFLICT (day, category, status)
+    DO UPDATE SET report_count = report_daily_stats.report_count + 1,
+      critical_count = report_daily_stats.critical_count + EXCLUDED.critical_count;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER track_reports_daily_stats ON public.reports;
+
+CREATE TRIGGER track_reports_daily_stats
+  AFTER INSERT OR DELETE OR UPDATE ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_report_daily_stats();
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION public.get_report_stats(DATE, DATE, BOOLEAN, BOOLEAN);
+
+CREATE FUNCTION public.get_report_stats(
+  _from DATE DEFAULT NULL,
+  _to DATE DEFAULT NULL,
+  _by_day BOOLEAN DEFAULT true,
+  _by_category BOOLEAN DEFAULT true
+)
+RETURNS TABLE (
+  day DATE,
+  category TEXT,
+  status report_status,
+  report_count BIGINT,
+  critical_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN _by_day THEN stats.day END,
+    CASE WHEN _by_category THEN stats.category END,
+    stats.status,
+    sum(stats.report_count)::BIGINT,
+    sum(stats.critical_count)::BIGINT
+  FROM public.report_daily_stats AS stats
+  WHERE (_from IS NULL OR stats.day >= _from)
+    AND (_to IS NULL OR stats.day <= _to)
+    AND stats.report_count > 0
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3
+$$;
@@ -0,0 +1,6 @@
+-- Moderators remove spam and abuse, and authors can take back what they
+-- wrote. Replies go with the comment they answer.
+CREATE POLICY "Moderators and authors can delete report comments"
+  ON public.report_comments
+  FOR DELETE
+  USING (public.has_role(auth.uid(), 'MODERATOR') OR auth.uid() = author_id);
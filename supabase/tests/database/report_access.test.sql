@@ -0,0 +1,35 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(3);
+
+-- Fixtures: a pending report, which only its author and moderators can see
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'neighbour@example.com');
+
+INSERT INTO public.reports (id, title, category, description, user_id) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Burst pipe', 'other', 'Water on the street', '11111111-1111-1111-1111-111111111111');
+
+-- Act as another citizen through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'other citizens cannot read a pending report'
+);
+
+SELECT ok(
+  public.report_exists('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  'they can still tell that it exists'
+);
+
+SELECT ok(
+  NOT public.report_exists('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  'unknown ids do not exist'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
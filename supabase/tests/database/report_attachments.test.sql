@@ -0,0 +1,46 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(3);
+
+-- Fixtures: the author's pending report and another user's private upload
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'victim@example.com');
+
+INSERT INTO public.reports (id, title, category, description, user_id) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Burst pipe', 'other', 'Water on the street', '11111111-1111-1111-1111-111111111111');
+
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('report-images', '22222222-2222-2222-2222-222222222222/bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb/private.jpg');
+
+-- Act as the author through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.report_attachments (report_id, storage_path, media_type, mime_type, size_bytes) VALUES
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '22222222-2222-2222-2222-222222222222/bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb/private.jpg', 'image', 'image/jpeg', 1) $$,
+  '42501',
+  'new row violates row-level security policy for table "report_attachments"',
+  'an attachment cannot point at another user''s upload'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.report_attachments (report_id, storage_path, thumbnail_path, media_type, mime_type, size_bytes) VALUES
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/clip.mp4',
+     '22222222-2222-2222-2222-222222222222/bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb/private.jpg', 'video', 'video/mp4', 1) $$,
+  '42501',
+  'new row violates row-level security policy for table "report_attachments"',
+  'neither can its thumbnail'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.report_attachments (report_id, storage_path, media_type, mime_type, size_bytes) VALUES
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111/aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa/photo.jpg', 'image', 'image/jpeg', 1) $$,
+  'the author can attach files from their own folder for the report'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,115 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(11);
+
+-- Fixtures: handle_new_user gives every account the USER role
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'moderator@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'neighbour@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('22222222-2222-2222-2222-222222222222', 'MODERATOR');
+
+-- A pending report and a verified one, both by the author
+INSERT INTO public.reports (id, title, category, description, user_id) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Burst pipe', 'other', 'Water on the street', '11111111-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Fallen tree', 'other', 'Blocking the road', '11111111-1111-1111-1111-111111111111');
+
+UPDATE public.reports SET status = 'verified' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+
+-- Act as the moderator through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.report_comments (id, report_id, author_id, body) VALUES
+    ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '22222222-2222-2222-2222-222222222222', 'Which street?') $$,
+  'a moderator can ask the author a question'
+);
+
+-- Now as the author
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT body, from_moderator FROM public.report_comments WHERE report_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  $$ VALUES ('Which street?', true) $$,
+  'the author sees the question and that it came from a moderator'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.report_comments (report_id, parent_id, author_id, body, is_public) VALUES
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'cccccccc-cccc-cccc-cccc-cccccccccccc', '11111111-1111-1111-1111-111111111111', 'Main Street', true) $$,
+  'the author can reply'
+);
+
+SELECT is(
+  (SELECT is_public FROM public.report_comments WHERE body = 'Main Street'),
+  false,
+  'replies keep the visibility of their thread'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.report_comments (report_id, parent_id, author_id, body) VALUES
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'cccccccc-cccc-cccc-cccc-cccccccccccc', '11111111-1111-1111-1111-111111111111', 'Wrong thread') $$,
+  '23514',
+  'Replies must be on the same report as their comment',
+  'replies cannot move to another report'
+);
+
+-- A public comment the other citizen can see but did not write
+INSERT INTO public.report_comments (id, report_id, author_id, body, is_public) VALUES
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '11111111-1111-1111-1111-111111111111', 'Reported to the council', true);
+
+-- Now as another citizen
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.report_comments WHERE report_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'other citizens cannot read private comments'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.report_comments (report_id, author_id, body) VALUES
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '33333333-3333-3333-3333-333333333333', 'Still there') $$,
+  '42501',
+  'new row violates row-level security policy for table "report_comments"',
+  'other citizens cannot comment privately'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.report_comments (report_id, author_id, body, is_public) VALUES
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '33333333-3333-3333-3333-333333333333', 'Still there', true) $$,
+  'other citizens can comment publicly on a verified report'
+);
+
+DELETE FROM public.report_comments WHERE body = 'Still there';
+
+SELECT is_empty(
+  $$ SELECT id FROM public.report_comments WHERE body = 'Still there' $$,
+  'other citizens can delete their own comments'
+);
+
+-- Deleting someone else's comment silently matches no rows
+DELETE FROM public.report_comments WHERE id = 'dddddddd-dddd-dddd-dddd-dddddddddddd';
+
+-- Now as the moderator
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*) FROM public.report_comments WHERE id = 'dddddddd-dddd-dddd-dddd-dddddddddddd'),
+  1::BIGINT,
+  'citizens cannot delete comments they did not write'
+);
+
+DELETE FROM public.report_comments WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+
+SELECT is_empty(
+  $$ SELECT id FROM public.report_comments WHERE report_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'a moderator can remove a comment along with its replies'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
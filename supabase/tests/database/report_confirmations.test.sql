@@ -0,0 +1,38 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(2);
+
+-- Fixtures: a pending report last edited well before it is confirmed
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'neighbour@example.com');
+
+INSERT INTO public.reports (id, title, category, description, user_id, updated_at) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Burst pipe', 'other', 'Water on the street', '11111111-1111-1111-1111-111111111111', '2025-01-01');
+
+-- Act as the neighbour through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+INSERT INTO public.report_confirmations (report_id, user_id)
+VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '22222222-2222-2222-2222-222222222222');
+
+-- Pending reports are hidden from the neighbour, so check as the owner of the tables
+RESET ROLE;
+
+SELECT is(
+  (SELECT confirmation_count FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  1,
+  'confirming a report counts towards it'
+);
+
+SELECT is(
+  (SELECT updated_at FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  '2025-01-01'::TIMESTAMPTZ,
+  'confirming a report does not count as an update'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
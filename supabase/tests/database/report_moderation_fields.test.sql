@@ -0,0 +1,103 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(11);
+
+-- Fixtures: handle_new_user gives both accounts the USER role
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'moderator@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('22222222-2222-2222-2222-222222222222', 'MODERATOR');
+
+INSERT INTO public.reports (id, title, category, description, user_id) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Streetlight out', 'power_outage', 'Dark since Monday', '11111111-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Burst pipe', 'water_cut', 'Flooding the pavement', '11111111-1111-1111-1111-111111111111'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'Pothole', 'road_damage', 'Deep pothole on the corner', '11111111-1111-1111-1111-111111111111');
+
+-- Act as the author through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET status = 'verified' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501',
+  'Only moderators can change the status of a report',
+  'an author cannot verify their own report'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET status = 'rejected', rejection_reason = 'other' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501',
+  'Only moderators can change the status of a report',
+  'an author cannot reject their own report'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET verified_by = '11111111-1111-1111-1111-111111111111' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501',
+  'Only moderators can change the moderation details of a report',
+  'an author cannot set verified_by'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET verified_at = now() WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501',
+  'Only moderators can change the moderation details of a report',
+  'an author cannot set verified_at'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.reports (title, category, description, user_id, status)
+     VALUES ('Self-verified', 'other', 'Skipping the queue', '11111111-1111-1111-1111-111111111111', 'verified') $$,
+  '42501',
+  'New reports must be submitted as pending',
+  'an author cannot submit a report as already verified'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.reports SET title = 'Streetlight out on Elm St' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'an author can still edit the content of a pending report'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.reports SET status = 'withdrawn' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  'an author can withdraw their own pending report'
+);
+
+-- Act as the moderator
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.reports SET status = 'verified' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'a moderator can verify a report'
+);
+
+SELECT results_eq(
+  $$ SELECT status::text, verified_by FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  $$ VALUES ('verified', '22222222-2222-2222-2222-222222222222'::uuid) $$,
+  'verification is stamped with the moderator'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.reports SET status = 'rejected', rejection_reason = 'duplicate' WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' $$,
+  'a moderator can reject a report'
+);
+
+-- Back to the author: a reviewed report is out of reach entirely
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+UPDATE public.reports SET status = 'pending', rejection_reason = NULL WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT status::text FROM public.reports WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc'),
+  'rejected',
+  'an author cannot reopen a rejected report'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
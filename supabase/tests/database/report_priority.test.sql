@@ -0,0 +1,89 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(8);
+
+-- Fixtures: handle_new_user gives both accounts the USER role
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'moderator@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('22222222-2222-2222-2222-222222222222', 'MODERATOR');
+
+-- Power outages weigh 1.25, so a fresh high severity report scores 40 * 1.25
+INSERT INTO public.reports (id, title, category, description, severity, user_id) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Streetlight out', 'power_outage', 'Dark since Monday', 'high', '11111111-1111-1111-1111-111111111111');
+
+-- Last edited well before the rescoring below
+INSERT INTO public.reports (id, title, category, description, user_id, updated_at) VALUES
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Substation humming', 'power_outage', 'Loud at night', '11111111-1111-1111-1111-111111111111', '2025-01-01');
+
+SELECT is(
+  (SELECT priority_score FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  50::SMALLINT,
+  'new reports are scored from their severity and category'
+);
+
+-- Act as the author through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET priority_score = 100 WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501',
+  'Priority scores are maintained automatically',
+  'an author cannot set the score directly'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET priority_override = 100 WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501',
+  'Only moderators can change the moderation details of a report',
+  'an author cannot override the score'
+);
+
+UPDATE public.reports SET severity = 'critical' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+SELECT is(
+  (SELECT priority_score FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  69::SMALLINT,
+  'changing the severity rescores the report'
+);
+
+-- Now as the moderator
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+UPDATE public.reports SET priority_override = 90 WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+SELECT is(
+  (SELECT priority_score FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  90::SMALLINT,
+  'a moderator override replaces the score'
+);
+
+UPDATE public.reports SET priority_override = NULL WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+SELECT is(
+  (SELECT priority_score FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  69::SMALLINT,
+  'clearing the override restores the computed score'
+);
+
+UPDATE public.categories SET priority_weight = 2 WHERE id = 'power_outage';
+
+SELECT is(
+  (SELECT priority_score FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  100::SMALLINT,
+  'reweighting a category rescores its open reports, capped at 100'
+);
+
+SELECT is(
+  (SELECT updated_at FROM public.reports WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  '2025-01-01'::TIMESTAMPTZ,
+  'rescoring does not count as an update'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
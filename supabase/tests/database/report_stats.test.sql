@@ -0,0 +1,46 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(3);
+
+-- Fixtures: another user's pending report, which a citizen cannot see
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'citizen@example.com');
+
+INSERT INTO public.reports (id, title, category, description, user_id, priority_override) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Gas smell', 'other', 'Near the school', '11111111-1111-1111-1111-111111111111', 90);
+
+-- Act as the citizen through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT report_count, critical_count FROM public.get_report_stats(_by_day => false, _by_category => false) $$,
+  $$ VALUES (1::BIGINT, 1::BIGINT) $$,
+  'critical reports are counted with the totals, whoever can see them'
+);
+
+-- Moderation and rescoring run as trusted callers
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '{}', true);
+
+UPDATE public.reports SET priority_override = 20 WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+SELECT is(
+  (SELECT critical_count FROM public.get_report_stats(_by_day => false, _by_category => false)),
+  0::BIGINT,
+  'lowering the priority takes a report out of the critical count'
+);
+
+UPDATE public.reports SET status = 'verified', priority_override = 80 WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+SELECT results_eq(
+  $$ SELECT status, report_count, critical_count FROM public.get_report_stats(_by_day => false, _by_category => false) $$,
+  $$ VALUES ('verified'::report_status, 1::BIGINT, 1::BIGINT) $$,
+  'critical reports move with their status'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
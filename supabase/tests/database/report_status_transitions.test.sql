@@ -0,0 +1,74 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(8);
+
+-- Fixtures: handle_new_user gives both accounts the USER role
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'moderator@example.com');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('22222222-2222-2222-2222-222222222222', 'MODERATOR');
+
+INSERT INTO public.reports (id, title, category, description, user_id) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Streetlight out', 'power_outage', 'Dark since Monday', '11111111-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Burst pipe', 'water_cut', 'Flooding the pavement', '11111111-1111-1111-1111-111111111111');
+
+-- Act as the moderator through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET status = 'resolved' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '23514',
+  'A report cannot move from pending to resolved',
+  'a pending report cannot skip verification'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.reports SET status = 'verified' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'a moderator can verify a pending report'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.reports SET status = 'in_progress' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'a verified report can move to in progress'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.reports SET status = 'resolved' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'a report in progress can be resolved'
+);
+
+SELECT results_eq(
+  $$ SELECT status::text, verified_by FROM public.reports WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  $$ VALUES ('resolved', '22222222-2222-2222-2222-222222222222'::uuid) $$,
+  'later lifecycle steps keep the verification stamp'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.reports SET status = 'closed' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'a resolved report can be closed'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET status = 'in_progress' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '23514',
+  'A report cannot move from closed to in_progress',
+  'a closed report cannot be reopened'
+);
+
+-- Back to the author: the state machine applies to them as well
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.reports SET status = 'closed' WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' $$,
+  '23514',
+  'A report cannot move from pending to closed',
+  'an author cannot close their own pending report'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
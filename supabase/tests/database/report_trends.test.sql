@@ -0,0 +1,48 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(3);
+
+-- Fixtures: another user's reports, one still pending and one rejected,
+-- neither of which a citizen can see
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'author@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'citizen@example.com');
+
+INSERT INTO public.reports (id, title, category, description, user_id, created_at) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Burst pipe', 'other', 'Water on the street', '11111111-1111-1111-1111-111111111111', '2025-03-01 09:00Z'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Loud music', 'other', 'Every night', '11111111-1111-1111-1111-111111111111', '2025-03-01 10:00Z');
+
+UPDATE public.reports
+SET status = 'rejected', rejection_reason = 'not_an_issue', verified_at = '2025-03-02 10:00Z'
+WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+
+-- Act as the citizen through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT submitted FROM public.get_report_trends('2025-03-01', '2025-03-01') WHERE category = 'other'),
+  2::BIGINT,
+  'submissions count every report, not just the ones the caller can see'
+);
+
+SELECT results_eq(
+  $$ SELECT reviewed, verified, median_hours FROM public.get_moderation_trends('2025-03-02', '2025-03-02') $$,
+  $$ VALUES (1::BIGINT, 0::BIGINT, 24::DOUBLE PRECISION) $$,
+  'reviews count rejected reports the caller cannot see'
+);
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.get_report_trends('2025-03-01', '2025-03-01') $$,
+  '42501',
+  NULL,
+  'signed-out visitors cannot load trends'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,78 @@
+-- Run against the local stack with `supabase test db`
+BEGIN;
+
+SELECT plan(8);
+
+-- Fixtures: handle_new_user gives every account the USER role
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'citizen@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'moderator@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'admin@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('22222222-2222-2222-2222-222222222222', 'MODERATOR'),
+  ('33333333-3333-3333-3333-333333333333', 'ADMIN');
+
+-- Act as the moderator through PostgREST's role and JWT claims
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.set_user_role('11111111-1111-1111-1111-111111111111', 'MODERATOR', true) $$,
+  '42501',
+  'Only admins can change roles',
+  'a moderator cannot promote other users'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.list_users() $$,
+  '42501',
+  'Only admins can list users',
+  'a moderator cannot list users'
+);
+
+-- Now as the admin
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT email, roles::text[] FROM public.list_users('example.com') $$,
+  $$ VALUES
+    ('admin@example.com', ARRAY['USER', 'ADMIN']),
+    ('citizen@example.com', ARRAY['USER']),
+    ('moderator@example.com', ARRAY['USER', 'MODERATOR']) $$,
+  'an admin can search users and see their roles'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.set_user_role('11111111-1111-1111-1111-111111111111', 'MODERATOR', true) $$,
+  'an admin can grant MODERATOR'
+);
+
+SELECT ok(
+  public.has_role('11111111-1111-1111-1111-111111111111', 'MODERATOR'),
+  'the granted role takes effect'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.set_user_role('22222222-2222-2222-2222-222222222222', 'MODERATOR', false) $$,
+  'an admin can revoke MODERATOR'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.set_user_role('11111111-1111-1111-1111-111111111111', 'ADMIN', true) $$,
+  '42501',
+  'The ADMIN role cannot be changed here',
+  'ADMIN cannot be granted through the console'
+);
+
+SELECT results_eq(
+  $$ SELECT user_id, role::text, action FROM public.user_role_changes WHERE changed_by = '33333333-3333-3333-3333-333333333333' ORDER BY action $$,
+  $$ VALUES
+    ('11111111-1111-1111-1111-111111111111'::uuid, 'MODERATOR', 'granted'),
+    ('22222222-2222-2222-2222-222222222222'::uuid, 'MODERATOR', 'revoked') $$,
+  'both changes are audited with the admin who made them'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;